@@ -0,0 +1,431 @@
+import type { Page } from 'playwright';
+import type { Logger } from 'pino';
+import { FlowContext } from './types';
+
+const SEMANTICS_HOST = 'flt-semantics-host';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface SemanticsBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SemanticsNode extends SemanticsBox {
+  label: string;
+  role: string;
+}
+
+export interface DayButton extends SemanticsNode {
+  number: number;
+}
+
+export interface SemanticsTreeNode extends SemanticsNode {
+  children: SemanticsTreeNode[];
+}
+
+export interface SemanticsQuery {
+  label?: RegExp | string;
+  role?: RegExp | string;
+  minWidth?: number;
+  minHeight?: number;
+  maxTopRatio?: number;
+  inViewport?: boolean;
+  visible?: boolean;
+}
+
+export interface DayButtonOptions {
+  minSize?: number;
+  maxTopRatio?: number;
+  rowGap?: number;
+}
+
+export interface LocateOptions {
+  timeoutMs?: number;
+  minSize?: number;
+  exclude?: { x: number; y: number };
+}
+
+export interface ScrollOptions {
+  maxScrolls?: number;
+  step?: number;
+  settleMs?: number;
+}
+
+interface SerializedPattern {
+  source: string;
+  flags: string;
+}
+
+interface SerializedQuery {
+  label?: SerializedPattern;
+  text?: string;
+  role?: SerializedPattern;
+  minWidth: number;
+  minHeight: number;
+  maxTopRatio?: number;
+  inViewport: boolean;
+  visible: boolean;
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function normalizeLabel(value: string): string {
+  return value
+    .replace(/[\u00a0\u200b\u200c\u200d]/g, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
+
+export function boxCenter(box: SemanticsBox): { x: number; y: number } {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+function isNear(a: { x: number; y: number }, b: { x: number; y: number }): boolean {
+  return Math.abs(a.x - b.x) < 4 && Math.abs(a.y - b.y) < 4;
+}
+
+export function largestRow<T extends SemanticsBox>(nodes: T[], rowGap: number): T[] {
+  const sorted = [...nodes].sort((a, b) => a.y - b.y);
+  const rows: T[][] = [];
+
+  for (const node of sorted) {
+    const lastRow = rows[rows.length - 1];
+    if (lastRow && Math.abs(node.y - lastRow[0].y) < rowGap) {
+      lastRow.push(node);
+    } else {
+      rows.push([node]);
+    }
+  }
+
+  let best: T[] = [];
+  for (const row of rows) {
+    if (row.length > best.length) {
+      best = row;
+    }
+  }
+
+  return [...best].sort((a, b) => a.x - b.x);
+}
+
+function serializePattern(pattern: RegExp | string): SerializedPattern {
+  const regex = pattern instanceof RegExp ? pattern : new RegExp(escapeRegExp(pattern), 'i');
+  return { source: regex.source, flags: regex.flags.replace(/[gy]/g, '') };
+}
+
+function serializeQuery(query: SemanticsQuery): SerializedQuery {
+  const { label, role } = query;
+  return {
+    label: label instanceof RegExp ? serializePattern(label) : undefined,
+    text: typeof label === 'string' ? normalizeLabel(label) : undefined,
+    role: role === undefined ? undefined : serializePattern(role),
+    minWidth: query.minWidth ?? 0,
+    minHeight: query.minHeight ?? 0,
+    maxTopRatio: query.maxTopRatio,
+    inViewport: query.inViewport ?? false,
+    visible: query.visible ?? false,
+  };
+}
+
+export class FlutterPage {
+  readonly page: Page;
+  private timeoutMs: number;
+  private logger?: Logger;
+
+  constructor(page: Page, timeoutMs = DEFAULT_TIMEOUT_MS, logger?: Logger) {
+    this.page = page;
+    this.timeoutMs = timeoutMs;
+    this.logger = logger;
+  }
+
+  static fromContext(ctx: FlowContext): FlutterPage {
+    if (!ctx.page) {
+      throw new Error('FlowContext.page is required for Flutter interactions.');
+    }
+    return new FlutterPage(ctx.page, ctx.config.globalTimeout, ctx.logger);
+  }
+
+  async enableSemantics(): Promise<boolean> {
+    await this.page
+      .locator('flt-glass-pane')
+      .waitFor({ state: 'attached', timeout: this.timeoutMs })
+      .catch(() => undefined);
+
+    const clicked = await this.page.evaluate(() => {
+      const glass = document.querySelector('flt-glass-pane');
+      const root = glass && 'shadowRoot' in glass && (glass as HTMLElement).shadowRoot
+        ? (glass as HTMLElement).shadowRoot
+        : glass;
+      if (!root) {
+        return false;
+      }
+
+      const placeholder = root.querySelector('flt-semantics-placeholder');
+      if (!placeholder) {
+        return false;
+      }
+
+      (placeholder as HTMLElement).click();
+      return true;
+    });
+
+    this.logger?.debug({ clicked }, 'Flutter semantics placeholder click attempted');
+    await this.page.waitForTimeout(250);
+    return clicked;
+  }
+
+  async findAll(query: SemanticsQuery = {}): Promise<SemanticsNode[]> {
+    return this.page.evaluate(
+      ({ hostSelector, query: q }) => {
+        const hosts = Array.from(document.querySelectorAll(hostSelector));
+        const labelRegex = q.label ? new RegExp(q.label.source, q.label.flags) : null;
+        const roleRegex = q.role ? new RegExp(q.role.source, q.role.flags) : null;
+        const results: { x: number; y: number; width: number; height: number; label: string; role: string }[] = [];
+
+        for (const host of hosts) {
+          const root = 'shadowRoot' in host && (host as HTMLElement).shadowRoot
+            ? (host as HTMLElement).shadowRoot!
+            : host;
+          const elements = root.querySelectorAll(roleRegex ? '[role], [aria-label]' : '[aria-label]');
+
+          for (let i = 0; i < elements.length; i += 1) {
+            const el = elements[i] as HTMLElement;
+            const label = (el.getAttribute('aria-label') ?? '').trim();
+            const role = (el.getAttribute('role') ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+            if (!label && !roleRegex) {
+              continue;
+            }
+            if (roleRegex && !roleRegex.test(role)) {
+              continue;
+            }
+            if (labelRegex && !labelRegex.test(label)) {
+              continue;
+            }
+            if (q.text !== undefined) {
+              const normalized = label
+                .replace(/[\u00a0\u200b\u200c\u200d]/g, ' ')
+                .trim()
+                .toLowerCase()
+                .replace(/\s+/g, ' ');
+              if (!normalized.includes(q.text)) {
+                continue;
+              }
+            }
+
+            const rect = el.getBoundingClientRect();
+            if (!rect || rect.width < q.minWidth || rect.height < q.minHeight) {
+              continue;
+            }
+            if (q.maxTopRatio !== undefined && rect.top > window.innerHeight * q.maxTopRatio) {
+              continue;
+            }
+            if (q.inViewport && (rect.bottom < 0 || rect.top > window.innerHeight)) {
+              continue;
+            }
+            if (q.visible) {
+              const style = window.getComputedStyle(el);
+              if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
+                continue;
+              }
+            }
+
+            results.push({ x: rect.left, y: rect.top, width: rect.width, height: rect.height, label, role });
+          }
+        }
+
+        return results;
+      },
+      { hostSelector: SEMANTICS_HOST, query: serializeQuery(query) }
+    );
+  }
+
+  async find(query: SemanticsQuery): Promise<SemanticsNode | null> {
+    const nodes = await this.findAll(query);
+    return nodes[0] ?? null;
+  }
+
+  async hasLabel(label: RegExp | string, query: Omit<SemanticsQuery, 'label'> = {}): Promise<boolean> {
+    const node = await this.find({ ...query, label }).catch(() => null);
+    return node !== null;
+  }
+
+  async snapshot(): Promise<SemanticsTreeNode[]> {
+    return this.page.evaluate((hostSelector) => {
+      const roots: SemanticsTreeNode[] = [];
+      const stack: { el: Element; into: SemanticsTreeNode[] }[] = [];
+      const hosts = Array.from(document.querySelectorAll(hostSelector));
+      for (let h = hosts.length - 1; h >= 0; h -= 1) {
+        const parent = hosts[h].shadowRoot ?? hosts[h];
+        for (let i = parent.children.length - 1; i >= 0; i -= 1) {
+          stack.push({ el: parent.children[i], into: roots });
+        }
+      }
+
+      while (stack.length > 0) {
+        const { el, into } = stack.pop()!;
+        const label = (el.getAttribute('aria-label') ?? '').trim();
+        const role = (el.getAttribute('role') ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+        let target = into;
+        if (label || role) {
+          const rect = el.getBoundingClientRect();
+          const node = { x: rect.left, y: rect.top, width: rect.width, height: rect.height, label, role, children: [] };
+          into.push(node);
+          target = node.children;
+        }
+        for (let i = el.children.length - 1; i >= 0; i -= 1) {
+          stack.push({ el: el.children[i], into: target });
+        }
+      }
+
+      return roots;
+    }, SEMANTICS_HOST);
+  }
+
+  async labels(): Promise<string[]> {
+    const nodes = await this.findAll();
+    return nodes.map((node) => node.label);
+  }
+
+  async waitFor(query: SemanticsQuery, timeoutMs: number, pollMs = 250): Promise<SemanticsNode | null> {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      const node = await this.find(query).catch(() => null);
+      if (node) {
+        return node;
+      }
+      await this.page.waitForTimeout(pollMs);
+    }
+    return null;
+  }
+
+  async waitForLabel(label: RegExp | string, timeoutMs: number): Promise<boolean> {
+    const locators = [this.page.getByText(label), this.page.locator(SEMANTICS_HOST).getByText(label)];
+    const start = Date.now();
+
+    while (Date.now() - start < timeoutMs) {
+      if (await this.hasLabel(label)) {
+        return true;
+      }
+      for (const locator of locators) {
+        if ((await locator.count().catch(() => 0)) > 0) {
+          return true;
+        }
+      }
+      await this.page.waitForTimeout(250);
+    }
+
+    return false;
+  }
+
+  async clickCenter(box: SemanticsBox): Promise<void> {
+    const { x, y } = boxCenter(box);
+    await this.page.mouse.click(x, y);
+  }
+
+  async locateByLabel(label: RegExp, labelName: string, options: LocateOptions = {}): Promise<SemanticsBox | null> {
+    const attempts = [
+      { name: 'role-button', locator: this.page.getByRole('button', { name: label }) },
+      { name: 'role-link', locator: this.page.getByRole('link', { name: label }) },
+      { name: 'text', locator: this.page.getByText(label) },
+      { name: 'semantics-text', locator: this.page.locator(SEMANTICS_HOST).getByText(label) },
+    ];
+
+    const perAttemptTimeout = options.timeoutMs ?? Math.min(2000, this.timeoutMs);
+    const minSize = options.minSize ?? 0;
+
+    for (const attempt of attempts) {
+      try {
+        this.logger?.debug({ selector: attempt.name, label: labelName }, 'Looking up label');
+        const count = Math.max(1, await attempt.locator.count().catch(() => 0));
+        for (let i = 0; i < count; i += 1) {
+          const handle = await attempt.locator.nth(i).elementHandle({ timeout: perAttemptTimeout }).catch(() => null);
+          const box = handle ? await handle.boundingBox() : null;
+          if (!box || box.width < minSize || box.height < minSize) {
+            continue;
+          }
+          if (options.exclude && isNear(boxCenter(box), options.exclude)) {
+            continue;
+          }
+          this.logger?.debug({ selector: attempt.name, label: labelName }, 'Found label');
+          return box;
+        }
+      } catch {
+        // continue
+      }
+    }
+
+    return null;
+  }
+
+  async clickByLabel(label: RegExp, labelName: string, options: LocateOptions = {}): Promise<void> {
+    const box = await this.locateByLabel(label, labelName, options);
+    if (!box) {
+      throw new Error(`Failed to click ${labelName}.`);
+    }
+    await this.clickCenter(box);
+    this.logger?.debug({ label: labelName }, 'Clicked');
+  }
+
+  async tryClickByLabel(label: RegExp, labelName: string, options: LocateOptions = {}): Promise<boolean> {
+    try {
+      await this.clickByLabel(label, labelName, options);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async scrollUntil<T>(probe: () => Promise<T[]>, options: ScrollOptions = {}): Promise<T[]> {
+    const maxScrolls = options.maxScrolls ?? 12;
+    const step = options.step ?? 600;
+    const settleMs = options.settleMs ?? 500;
+
+    let found = await probe();
+    for (let i = 0; found.length === 0 && i < maxScrolls; i += 1) {
+      await this.page.mouse.wheel(0, step);
+      await this.page.waitForTimeout(settleMs);
+      found = await probe();
+    }
+
+    return found;
+  }
+
+  async scrollUntilVisible(query: SemanticsQuery, options: ScrollOptions = {}): Promise<SemanticsNode[]> {
+    return this.scrollUntil(() => this.findAll({ inViewport: true, ...query }), options);
+  }
+
+  async findDayButtons(options: DayButtonOptions = {}): Promise<DayButton[]> {
+    const minSize = options.minSize ?? 16;
+    const nodes = await this.findAll({
+      label: /\d{1,2}/,
+      minWidth: minSize,
+      minHeight: minSize,
+      maxTopRatio: options.maxTopRatio ?? 0.6,
+    });
+
+    const buttons = nodes.map((node) => ({ ...node, number: Number(node.label.match(/(\d{1,2})/)![1]) }));
+    return largestRow(buttons, options.rowGap ?? 30);
+  }
+
+  async waitForDayButtons(timeoutMs: number, options: DayButtonOptions = {}, count = 7): Promise<DayButton[]> {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      const buttons = await this.findDayButtons(options);
+      if (buttons.length >= count) {
+        return buttons;
+      }
+      await this.page.waitForTimeout(300);
+    }
+    return [];
+  }
+
+  async dumpLabels(): Promise<void> {
+    const labels = await this.labels().catch(() => [] as string[]);
+    const numeric = labels.filter((label) => /\d/.test(label));
+    this.logger?.debug({ totalLabels: labels.length, numericLabels: numeric.slice(0, 40) }, 'Semantics labels dump');
+  }
+}
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import type { Logger } from 'pino';
+import { AppConfig } from './types';
+import { findSessionTokens, readSessionState, StoredCookie } from './auth';
+import { DiscoveredOperation, DiscoveryCatalogue, hasRedactedValues } from './discover';
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface WorkoutOfDayData {
+  workoutOfDay: Record<string, unknown>[];
+  [key: string]: unknown;
+}
+
+export type ScheduleData = Record<string, unknown>;
+
+interface GraphqlResponse<T> {
+  data?: T;
+  errors?: { message?: string }[];
+}
+
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+const SCHEDULE_FIELD_PATTERN = /schedule|calendar|class(es)?|session/i;
+const RANGE_END_KEY_PATTERN = /end|^to|to$|until|max|before/i;
+const AUTH_ERROR_PATTERN = /rejected the session token|unauthori[sz]ed|unauthenticated|forbidden|not authenticated|jwt/i;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function substituteDates(
+  value: unknown,
+  pick: (key: string, index: number) => string,
+  counter = { index: 0 },
+  key = ''
+): unknown {
+  if (typeof value === 'string') {
+    const match = value.match(DATE_PATTERN);
+    if (!match) {
+      return value;
+    }
+    const replacement = pick(key, counter.index);
+    counter.index += 1;
+    return `${replacement}${value.slice(match[1].length)}`;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => substituteDates(entry, pick, counter, key));
+  }
+
+  if (isPlainObject(value)) {
+    const next: Record<string, unknown> = {};
+    for (const [entryKey, entry] of Object.entries(value)) {
+      next[entryKey] = substituteDates(entry, pick, counter, entryKey);
+    }
+    return next;
+  }
+
+  return value;
+}
+
+function containsDate(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return DATE_PATTERN.test(value);
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsDate);
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).some(containsDate);
+  }
+  return false;
+}
+
+function cookieHeader(cookies: StoredCookie[], endpoint: string): string {
+  let host = '';
+  try {
+    host = new URL(endpoint).hostname;
+  } catch {
+    return '';
+  }
+
+  return cookies
+    .filter((cookie) => {
+      const domain = cookie.domain.replace(/^\./, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    })
+    .map((cookie) => `${cookie.name}=${cookie.value}`)
+    .join('; ');
+}
+
+export class ApiClient {
+  private config: AppConfig;
+  private logger: Logger;
+  private token: string;
+  private cookies: StoredCookie[];
+  private operations: DiscoveredOperation[];
+
+  constructor(
+    config: AppConfig,
+    logger: Logger,
+    session: { token: string; cookies: StoredCookie[] },
+    operations: DiscoveredOperation[]
+  ) {
+    this.config = config;
+    this.logger = logger;
+    this.token = session.token;
+    this.cookies = session.cookies;
+    this.operations = operations;
+  }
+
+  static fromSession(config: AppConfig, logger: Logger): ApiClient {
+    const state = readSessionState(config);
+    if (!state) {
+      throw new Error(`No session state found at ${config.sessionStatePath}. Run the login flow first.`);
+    }
+
+    const [token] = findSessionTokens(state);
+    if (!token) {
+      throw new Error('No auth token found in the saved session state.');
+    }
+
+    if (!fs.existsSync(config.api.catalogPath)) {
+      throw new Error(`API catalogue not found: ${config.api.catalogPath}. Run the discover command first.`);
+    }
+    const catalogue = JSON.parse(fs.readFileSync(config.api.catalogPath, 'utf-8')) as DiscoveryCatalogue;
+    const operations = (catalogue.operations ?? []).filter(
+      (operation) => operation.kind === 'graphql' && Boolean(operation.query)
+    );
+
+    logger.debug(
+      { tokenSource: token.source, operations: operations.length },
+      'API client initialised from saved session'
+    );
+    return new ApiClient(config, logger, { token: token.value, cookies: state.cookies }, operations);
+  }
+
+  findOperation(predicate: (operation: DiscoveredOperation) => boolean): DiscoveredOperation | undefined {
+    const matches = this.operations.filter(
+      (operation) => predicate(operation) && !/^\s*mutation\b/.test(operation.query ?? '')
+    );
+    const replayable = matches.filter((operation) => !hasRedactedValues(operation));
+    const pool = replayable.length > 0 ? replayable : matches;
+    return pool.find((operation) => operation.sampleVariables.some(containsDate)) ?? pool[0];
+  }
+
+  async request<T>(operation: DiscoveredOperation, variables: Record<string, unknown>): Promise<T> {
+    const endpoint = this.config.api.url || operation.urls[0];
+    if (!endpoint) {
+      throw new Error(`No endpoint known for operation ${operation.key}.`);
+    }
+    if (hasRedactedValues(operation)) {
+      throw new Error(`Operation ${operation.key} was recorded with redacted credentials and cannot be replayed.`);
+    }
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      accept: 'application/json',
+      authorization: `Bearer ${this.token}`,
+      origin: this.config.baseUrl,
+    };
+    const cookie = cookieHeader(this.cookies, endpoint);
+    if (cookie) {
+      headers.cookie = cookie;
+    }
+
+    this.logger.debug({ operation: operation.key, endpoint }, 'Sending API request');
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        operationName: operation.operationName,
+        query: operation.query,
+        variables,
+      }),
+      signal: AbortSignal.timeout(this.config.globalTimeout),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`API rejected the session token (HTTP ${response.status}).`);
+    }
+    if (!response.ok) {
+      throw new Error(`API request ${operation.key} failed with HTTP ${response.status}.`);
+    }
+
+    const body = (await response.json()) as GraphqlResponse<T>;
+    if (body.errors && body.errors.length > 0) {
+      const messages = body.errors.map((error) => error.message ?? 'unknown error').join('; ');
+      throw new Error(`API request ${operation.key} returned errors: ${messages}`);
+    }
+    if (!body.data) {
+      throw new Error(`API request ${operation.key} returned no data.`);
+    }
+
+    return body.data;
+  }
+
+  async probe(): Promise<boolean | undefined> {
+    const operation = this.findOperation(() => true);
+    if (!operation) {
+      return undefined;
+    }
+
+    try {
+      await this.request<unknown>(operation, (operation.sampleVariables[0] ?? {}) as Record<string, unknown>);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (AUTH_ERROR_PATTERN.test(message)) {
+        return false;
+      }
+      this.logger.debug({ err: error, operation: operation.key }, 'Session probe was inconclusive');
+      return undefined;
+    }
+  }
+
+  async getWorkoutOfDay(date: string): Promise<WorkoutOfDayData> {
+    const operation = this.findOperation((candidate) => candidate.rootFields.includes('workoutOfDay'));
+    if (!operation) {
+      throw new Error('No workoutOfDay operation in the API catalogue.');
+    }
+
+    const variables = substituteDates(operation.sampleVariables[0] ?? {}, () => date);
+    const data = await this.request<WorkoutOfDayData>(operation, variables as Record<string, unknown>);
+    if (!Array.isArray(data.workoutOfDay)) {
+      throw new Error('API response did not include a workoutOfDay list.');
+    }
+    return data;
+  }
+
+  async getSchedule(range: DateRange): Promise<ScheduleData> {
+    if (!DATE_PATTERN.test(range.start) || !DATE_PATTERN.test(range.end) || range.start > range.end) {
+      throw new Error(`Invalid schedule range ${range.start}..${range.end}; expected YYYY-MM-DD with start <= end.`);
+    }
+
+    const operation = this.findOperation((candidate) =>
+      candidate.rootFields.some((field) => SCHEDULE_FIELD_PATTERN.test(field))
+    );
+    if (!operation) {
+      throw new Error('No schedule operation in the API catalogue.');
+    }
+
+    const variables = substituteDates(operation.sampleVariables[0] ?? {}, (key, index) => {
+      if (RANGE_END_KEY_PATTERN.test(key)) {
+        return range.end;
+      }
+      return index === 0 ? range.start : range.end;
+    });
+    return this.request<ScheduleData>(operation, variables as Record<string, unknown>);
+  }
+}
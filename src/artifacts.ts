@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext, Page } from 'playwright';
+import type { Logger } from 'pino';
+import { AppConfig } from './types';
+import { isTracing } from './browser';
+import { NetworkCapture } from './capture';
+import { FlowStepError } from './flow-runner';
+import { formatDate, formatTime } from './output';
+import { FlutterPage, SemanticsNode } from './actions';
+
+export type ArtifactReason = 'failure' | 'success';
+
+export interface ArtifactBundleOptions {
+  flowName: string;
+  reason: ArtifactReason;
+  page?: Page;
+  context?: BrowserContext;
+  capture?: NetworkCapture;
+  error?: unknown;
+  now?: Date;
+}
+
+async function collectSemanticsNodes(page: Page): Promise<SemanticsNode[]> {
+  const nodes = await new FlutterPage(page).findAll();
+  return nodes.map((node) => ({
+    label: node.label,
+    role: node.role,
+    x: Math.round(node.x),
+    y: Math.round(node.y),
+    width: Math.round(node.width),
+    height: Math.round(node.height),
+  }));
+}
+
+function describeError(error: unknown): Record<string, unknown> | undefined {
+  if (!error) {
+    return undefined;
+  }
+
+  if (error instanceof FlowStepError) {
+    return {
+      message: error.message,
+      flow: error.flowName,
+      step: error.stepName,
+      stepsCompleted: error.stepsCompleted,
+      stack: error.stack,
+      cause: describeError(error.cause),
+    };
+  }
+
+  if (error instanceof Error) {
+    return { message: error.message, name: error.name, stack: error.stack };
+  }
+
+  return { message: String(error) };
+}
+
+async function writeArtifact(
+  logger: Logger,
+  name: string,
+  write: () => Promise<unknown> | unknown
+): Promise<boolean> {
+  try {
+    await write();
+    return true;
+  } catch (error) {
+    logger.debug({ err: error, artifact: name }, 'Failed to write artifact');
+    return false;
+  }
+}
+
+export async function writeArtifactBundle(
+  config: AppConfig,
+  logger: Logger,
+  options: ArtifactBundleOptions
+): Promise<string> {
+  const { flowName, reason, page, context, capture, error } = options;
+  const now = options.now ?? new Date();
+  const bundleDir = path.join(
+    config.artifactsDir,
+    flowName,
+    formatDate(now),
+    `${flowName}-${formatTime(now)}-${reason}`
+  );
+  fs.mkdirSync(bundleDir, { recursive: true });
+
+  const written: string[] = [];
+  const record = async (name: string, write: () => Promise<unknown> | unknown) => {
+    if (await writeArtifact(logger, name, write)) {
+      written.push(name);
+    }
+  };
+
+  if (page && !page.isClosed()) {
+    await record('screenshot.png', () =>
+      page.screenshot({ path: path.join(bundleDir, 'screenshot.png'), fullPage: true })
+    );
+    await record('page.html', async () => {
+      const html = await page.content();
+      fs.writeFileSync(path.join(bundleDir, 'page.html'), html, 'utf-8');
+    });
+    await record('semantics.json', async () => {
+      const nodes = await collectSemanticsNodes(page);
+      fs.writeFileSync(
+        path.join(bundleDir, 'semantics.json'),
+        JSON.stringify({ url: page.url(), totalLabels: nodes.length, nodes }, null, 2),
+        'utf-8'
+      );
+    });
+  }
+
+  if (capture) {
+    await record('network.json', () => {
+      const network = {
+        responses: capture.getNetworkLog(),
+        captured: capture.peek(),
+      };
+      fs.writeFileSync(path.join(bundleDir, 'network.json'), JSON.stringify(network, null, 2), 'utf-8');
+    });
+  }
+
+  if (context && isTracing(context)) {
+    await record('trace.zip', () => context.tracing.stop({ path: path.join(bundleDir, 'trace.zip') }));
+  }
+
+  const summary = {
+    flow: flowName,
+    reason,
+    timestamp: now.toISOString(),
+    url: page && !page.isClosed() ? page.url() : undefined,
+    error: describeError(error),
+    files: written,
+  };
+  fs.writeFileSync(path.join(bundleDir, 'summary.json'), JSON.stringify(summary, null, 2), 'utf-8');
+
+  return bundleDir;
+}
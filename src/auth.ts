@@ -3,6 +3,43 @@ import path from 'path';
 import { BrowserContext, Page } from 'playwright';
 import type { Logger } from 'pino';
 import { AppConfig } from './types';
+import { decryptText, encryptText, isEncryptedPayload } from './crypto';
+import { FlutterPage } from './actions';
+import { hasLabel, LabelKey, labelPattern } from './labels';
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+}
+
+export interface StoredOrigin {
+  origin: string;
+  localStorage: { name: string; value: string }[];
+}
+
+export interface StoredSessionState {
+  cookies: StoredCookie[];
+  origins: StoredOrigin[];
+}
+
+export interface SessionMeta {
+  savedAt?: string;
+  lastValidatedAt?: string;
+  lastValidationResult?: boolean;
+  importedAt?: string;
+  importedFrom?: string;
+}
+
+export interface SessionToken {
+  value: string;
+  source: string;
+}
+
+const LOGIN_FORM_LABELS: LabelKey[] = ['emailField', 'passwordField', 'logIn'];
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
 
 export function sessionStateExists(config: AppConfig): boolean {
   return fs.existsSync(config.sessionStatePath);
@@ -14,151 +51,225 @@ export function ensureSessionStateDir(config: AppConfig): void {
 }
 
 export function deleteSessionState(config: AppConfig): void {
-  if (fs.existsSync(config.sessionStatePath)) {
-    fs.rmSync(config.sessionStatePath);
+  for (const filePath of [config.sessionStatePath, sessionMetaPath(config)]) {
+    if (fs.existsSync(filePath)) {
+      fs.rmSync(filePath);
+    }
+  }
+}
+
+export function sessionMetaPath(config: AppConfig): string {
+  return config.sessionStatePath.replace(/\.json$/, '') + '.meta.json';
+}
+
+export function readSessionMeta(config: AppConfig): SessionMeta {
+  try {
+    return JSON.parse(fs.readFileSync(sessionMetaPath(config), 'utf-8')) as SessionMeta;
+  } catch {
+    return {};
   }
 }
 
+export function updateSessionMeta(config: AppConfig, update: SessionMeta): SessionMeta {
+  const meta = { ...readSessionMeta(config), ...update };
+  ensureSessionStateDir(config);
+  fs.writeFileSync(sessionMetaPath(config), JSON.stringify(meta, null, 2), 'utf-8');
+  return meta;
+}
+
+export function isSessionStateEncrypted(config: AppConfig): boolean {
+  if (!fs.existsSync(config.sessionStatePath)) {
+    return false;
+  }
+  try {
+    return isEncryptedPayload(JSON.parse(fs.readFileSync(config.sessionStatePath, 'utf-8')));
+  } catch {
+    return false;
+  }
+}
+
+export function writeSessionState(
+  config: AppConfig,
+  state: StoredSessionState,
+  sessionKey: string = config.secrets.get('PUSHPRESS_SESSION_KEY')
+): void {
+  ensureSessionStateDir(config);
+  const json = JSON.stringify(state, null, 2);
+  const content = sessionKey ? JSON.stringify(encryptText(json, sessionKey), null, 2) : json;
+  fs.writeFileSync(config.sessionStatePath, content, { encoding: 'utf-8', mode: 0o600 });
+}
+
 export async function saveSessionState(
   context: BrowserContext,
   config: AppConfig
 ): Promise<void> {
-  ensureSessionStateDir(config);
-  await context.storageState({ path: config.sessionStatePath });
+  const state = (await context.storageState()) as StoredSessionState;
+  writeSessionState(config, state);
+  const now = new Date().toISOString();
+  updateSessionMeta(config, { savedAt: now, lastValidatedAt: now, lastValidationResult: true });
+}
+
+export function readSessionState(
+  config: AppConfig,
+  sessionKey?: string
+): StoredSessionState | null {
+  if (!fs.existsSync(config.sessionStatePath)) {
+    return null;
+  }
+
+  let raw = JSON.parse(fs.readFileSync(config.sessionStatePath, 'utf-8')) as unknown;
+  if (isEncryptedPayload(raw)) {
+    const key = sessionKey ?? config.secrets.get('PUSHPRESS_SESSION_KEY');
+    if (!key) {
+      throw new Error(
+        `Session state at ${config.sessionStatePath} is encrypted. Set PUSHPRESS_SESSION_KEY (or PUSHPRESS_SESSION_KEY_CMD).`
+      );
+    }
+    raw = JSON.parse(decryptText(raw, key));
+  }
+
+  const state = raw as Partial<StoredSessionState>;
+  return {
+    ...state,
+    cookies: Array.isArray(state.cookies) ? state.cookies : [],
+    origins: Array.isArray(state.origins) ? state.origins : [],
+  };
+}
+
+function findJwt(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    if (JWT_PATTERN.test(value)) {
+      return value;
+    }
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[') || trimmed.startsWith('"')) {
+      try {
+        return findJwt(JSON.parse(trimmed));
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  if (value && typeof value === 'object') {
+    for (const entry of Object.values(value as Record<string, unknown>)) {
+      const found = findJwt(entry);
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+export function findSessionTokens(state: StoredSessionState): SessionToken[] {
+  const tokens: SessionToken[] = [];
+
+  for (const origin of state.origins) {
+    for (const entry of origin.localStorage ?? []) {
+      if (!hasAuthLikeKeys([entry.name])) {
+        continue;
+      }
+      const jwt = findJwt(entry.value);
+      if (jwt) {
+        tokens.push({ value: jwt, source: `localStorage:${entry.name}` });
+      }
+    }
+  }
+
+  for (const cookie of state.cookies) {
+    if (JWT_PATTERN.test(cookie.value)) {
+      tokens.push({ value: cookie.value, source: `cookie:${cookie.name}` });
+    }
+  }
+
+  return tokens;
+}
+
+export function decodeJwtExpiry(token: string): Date | undefined {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as { exp?: unknown };
+    return typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 function isLoginUrl(url: string): boolean {
   return url.includes('/login');
 }
 
-async function getLoginIndicators(page: Page): Promise<{
+async function getLoginIndicators(page: Page, config: AppConfig, logger?: Logger): Promise<{
   hasLoginForm: boolean;
   localStorageKeys: string[];
   sessionStorageKeys: string[];
 }> {
-  return page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-
-    const labelsToCheck = ['username/email', 'email', 'password', 'log in'];
-    let hasLoginForm = false;
-
-    if (root) {
-      const nodes = root.querySelectorAll('[aria-label]');
-      for (let i = 0; i < nodes.length; i += 1) {
-        const el = nodes[i] as HTMLElement;
-        const label = (el.getAttribute('aria-label') ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
-        if (labelsToCheck.some((target) => label.includes(target))) {
-          hasLoginForm = true;
-          break;
-        }
-      }
-    }
+  const hasLoginLabel = await hasLabel(new FlutterPage(page), { config, logger }, LOGIN_FORM_LABELS);
+  const { source, flags } = labelPattern(config, LOGIN_FORM_LABELS);
 
-    if (!hasLoginForm) {
-      const bodyText = document.body ? document.body.innerText.toLowerCase() : '';
-      if (labelsToCheck.some((target) => bodyText.includes(target))) {
-        hasLoginForm = true;
-      }
-    }
+  return page.evaluate(({ hasLoginForm, pattern }) => {
+    const bodyText = document.body ? document.body.innerText : '';
 
     return {
-      hasLoginForm,
+      hasLoginForm: hasLoginForm || new RegExp(pattern.source, pattern.flags).test(bodyText),
       localStorageKeys: Object.keys(localStorage),
       sessionStorageKeys: Object.keys(sessionStorage),
     };
-  });
+  }, { hasLoginForm: hasLoginLabel, pattern: { source, flags } });
 }
 
-function hasAuthLikeKeys(keys: string[]): boolean {
+export function hasAuthLikeKeys(keys: string[]): boolean {
   const needles = ['token', 'auth', 'session', 'jwt', 'user', 'member'];
   return keys.some((key) => needles.some((needle) => key.toLowerCase().includes(needle)));
 }
 
-async function hasSemanticsLabel(page: Page, labelText: string): Promise<boolean> {
-  return page.evaluate((label) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const wanted = label.replace(/\s+/g, ' ').trim().toLowerCase();
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const labelValue = (el.getAttribute('aria-label') ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
-      if (labelValue === wanted || labelValue.includes(wanted)) {
-        return true;
-      }
-    }
+export async function isLoginScreenVisible(page: Page, config: AppConfig, logger?: Logger): Promise<boolean> {
+  const indicators = await getLoginIndicators(page, config, logger).catch(() => null);
+  if (indicators?.hasLoginForm) {
+    return true;
+  }
 
-    return false;
-  }, labelText);
+  return hasLabel(new FlutterPage(page), { config, logger }, 'getStarted');
 }
 
-async function enableFlutterSemantics(
+export async function validateSession(
   page: Page,
   config: AppConfig,
   logger?: Logger
-): Promise<void> {
-  await page
-    .locator('flt-glass-pane')
-    .waitFor({ state: 'attached', timeout: config.globalTimeout })
-    .catch(() => undefined);
-
-  const clicked = await page.evaluate(() => {
-    const glass = document.querySelector('flt-glass-pane');
-    const root = glass && 'shadowRoot' in glass && (glass as HTMLElement).shadowRoot
-      ? (glass as HTMLElement).shadowRoot
-      : glass;
-    if (!root) {
-      return false;
-    }
-
-    const placeholder = root.querySelector('flt-semantics-placeholder');
-    if (!placeholder) {
-      return false;
-    }
-
-    (placeholder as HTMLElement).click();
-    return true;
-  });
-
-  logger?.debug({ clicked }, 'Flutter semantics placeholder click attempted');
-  await page.waitForTimeout(250);
+): Promise<boolean> {
+  const valid = await checkSessionInBrowser(page, config, logger);
+  try {
+    updateSessionMeta(config, { lastValidatedAt: new Date().toISOString(), lastValidationResult: valid });
+  } catch (error) {
+    logger?.debug({ err: error }, 'Failed to record session validation');
+  }
+  return valid;
 }
 
-export async function validateSession(
+async function checkSessionInBrowser(
   page: Page,
   config: AppConfig,
   logger?: Logger
 ): Promise<boolean> {
   await page.goto(config.baseUrl, { waitUntil: 'domcontentloaded' });
   await page.waitForTimeout(500);
-  await enableFlutterSemantics(page, config, logger);
+  const flutter = new FlutterPage(page, config.globalTimeout, logger);
+  await flutter.enableSemantics();
 
   const start = Date.now();
   let lastSnapshot = '';
   let lastLogTime = 0;
 
   while (Date.now() - start < config.globalTimeout) {
-    const indicators = await getLoginIndicators(page);
-    const navLabels = ['Home', 'Schedule', 'Workouts', 'Social'];
-    let hasNav = false;
-    for (let i = 0; i < navLabels.length; i += 1) {
-      // eslint-disable-next-line no-await-in-loop
-      const found = await hasSemanticsLabel(page, navLabels[i]).catch(() => false);
-      if (found) {
-        hasNav = true;
-        break;
-      }
-    }
-    const hasGetStarted = await hasSemanticsLabel(page, "Let's get started").catch(() => false);
+    const indicators = await getLoginIndicators(page, config, logger);
+    const hasNav = await hasLabel(flutter, { config, logger }, 'navigation');
+    const hasGetStarted = await hasLabel(flutter, { config, logger }, 'getStarted');
 
     const snapshot = JSON.stringify({
       hasLoginForm: indicators.hasLoginForm,
@@ -195,14 +306,14 @@ export async function waitForLoginSuccess(
   logger?: Logger
 ): Promise<void> {
   const start = Date.now();
-  let lastIndicators = await getLoginIndicators(page);
+  let lastIndicators = await getLoginIndicators(page, config, logger);
 
   if (!lastIndicators.hasLoginForm) {
     return;
   }
 
   while (Date.now() - start < config.globalTimeout) {
-    const indicators = await getLoginIndicators(page);
+    const indicators = await getLoginIndicators(page, config, logger);
     lastIndicators = indicators;
     const authLike = hasAuthLikeKeys([
       ...indicators.localStorageKeys,
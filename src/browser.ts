@@ -1,6 +1,8 @@
 import fs from 'fs';
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import path from 'path';
+import { chromium, Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
 import { AppConfig } from './types';
+import { readSessionState } from './auth';
 
 export interface BrowserSession {
   browser: Browser;
@@ -9,19 +11,68 @@ export interface BrowserSession {
   close: () => Promise<void>;
 }
 
-export async function launchBrowser(config: AppConfig): Promise<BrowserSession> {
+const traceStates = new WeakMap<BrowserContext, 'recording' | 'paused'>();
+
+export interface LaunchOptions {
+  tracing?: boolean;
+  freshContext?: boolean;
+}
+
+function harStartTime(harPath: string): Date | undefined {
+  try {
+    const har = JSON.parse(fs.readFileSync(harPath, 'utf-8')) as {
+      log?: { pages?: { startedDateTime?: string }[]; entries?: { startedDateTime?: string }[] };
+    };
+    const started = har.log?.pages?.[0]?.startedDateTime ?? har.log?.entries?.[0]?.startedDateTime;
+    const time = started ? new Date(started) : undefined;
+    return time && !Number.isNaN(time.getTime()) ? time : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function launchBrowser(
+  config: AppConfig,
+  options: LaunchOptions = {}
+): Promise<BrowserSession> {
+  const storageState = options.freshContext
+    ? undefined
+    : ((readSessionState(config) ?? undefined) as BrowserContextOptions['storageState']);
+
+  const recordHar = config.har.recordPath
+    ? { path: path.resolve(config.har.recordPath), content: 'embed' as const, mode: 'full' as const }
+    : undefined;
+  if (recordHar) {
+    fs.mkdirSync(path.dirname(recordHar.path), { recursive: true });
+  }
+
+  const replayPath = config.har.replayPath ? path.resolve(config.har.replayPath) : undefined;
+  if (replayPath && !fs.existsSync(replayPath)) {
+    throw new Error(`HAR file not found: ${replayPath}`);
+  }
+
   const browser = await chromium.launch({
     headless: config.headless,
     slowMo: config.slowMo,
   });
 
-  const storageState = fs.existsSync(config.sessionStatePath)
-    ? config.sessionStatePath
-    : undefined;
-
-  const context = await browser.newContext({ storageState });
+  const context = await browser.newContext({ storageState, recordHar });
   context.setDefaultTimeout(config.globalTimeout);
 
+  if (replayPath) {
+    await context.routeFromHAR(replayPath, { notFound: 'abort' });
+    const recordedAt = harStartTime(replayPath);
+    if (recordedAt) {
+      await context.clock.install({ time: recordedAt });
+      await context.clock.resume();
+    }
+  }
+
+  if (options.tracing) {
+    await context.tracing.start({ screenshots: true, snapshots: true });
+    traceStates.set(context, 'recording');
+  }
+
   const page = await context.newPage();
 
   return {
@@ -34,3 +85,24 @@ export async function launchBrowser(config: AppConfig): Promise<BrowserSession>
     },
   };
 }
+
+export function isTracing(context: BrowserContext): boolean {
+  return traceStates.get(context) === 'recording';
+}
+
+// Stopping the chunk drops everything recorded so far, so the trace never holds typed credentials.
+export async function pauseTracing(page: Page): Promise<void> {
+  const context = page.context();
+  if (isTracing(context)) {
+    await context.tracing.stopChunk();
+    traceStates.set(context, 'paused');
+  }
+}
+
+export async function resumeTracing(page: Page): Promise<void> {
+  const context = page.context();
+  if (traceStates.get(context) === 'paused') {
+    await context.tracing.startChunk();
+    traceStates.set(context, 'recording');
+  }
+}
@@ -1,12 +1,42 @@
 import { Page, Response } from 'playwright';
 import type { Logger } from 'pino';
-import { CaptureRule, CaptureRecord } from './types';
+import { CaptureRule, CaptureRecord, NetworkLogEntry } from './types';
+import { GraphqlOperation, parseGraphqlOperations } from './graphql';
+
+const NETWORK_LOG_LIMIT = 200;
+
+interface CaptureTarget {
+  index: number;
+  operation?: GraphqlOperation;
+}
+
+function extractJsonPath(value: unknown, jsonPath: string): unknown {
+  const segments = jsonPath
+    .replace(/^\$\.?/, '')
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment): segment is string => Boolean(segment));
+
+  let current = value;
+  for (const segment of segments) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (current && typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
 
 export class NetworkCapture {
   private page: Page;
   private logger: Logger;
   private rules: CaptureRule[] = [];
   private buffer: Record<string, CaptureRecord[]> = {};
+  private generation = 0;
+  private networkLog: NetworkLogEntry[] = [];
 
   constructor(page: Page, logger: Logger) {
     this.page = page;
@@ -26,49 +56,109 @@ export class NetworkCapture {
     return data;
   }
 
-  private async handleResponse(response: Response): Promise<void> {
-    if (this.rules.length === 0) {
-      return;
-    }
+  peek(): Record<string, CaptureRecord[]> {
+    return this.buffer;
+  }
+
+  getNetworkLog(): NetworkLogEntry[] {
+    return [...this.networkLog];
+  }
 
+  discard(): void {
+    this.buffer = {};
+    this.generation += 1;
+  }
+
+  private async handleResponse(response: Response): Promise<void> {
     const url = response.url();
     const status = response.status();
     const method = response.request().method();
     const contentType = response.headers()['content-type'] ?? '';
 
+    this.networkLog.push({ url, status, method, contentType, timestamp: Date.now() });
+    if (this.networkLog.length > NETWORK_LOG_LIMIT) {
+      this.networkLog.shift();
+    }
+
+    if (this.rules.length === 0) {
+      return;
+    }
+
+    const generation = this.generation;
+
     if (!contentType.includes('application/json')) {
       return;
     }
 
+    let operations: GraphqlOperation[] | undefined;
+
     for (const rule of this.rules) {
       if (!this.matchesRule(rule, url, method, status)) {
         continue;
       }
 
       try {
+        let targets: CaptureTarget[] = [{ index: 0 }];
+        if (rule.operationName || rule.match) {
+          operations = operations ?? parseGraphqlOperations(url, response.request().postData());
+          targets = operations
+            .map((operation, index) => ({ operation, index }))
+            .filter(({ operation }) => this.matchesOperation(rule, operation));
+          if (targets.length === 0) {
+            continue;
+          }
+        }
+
         const json = await response.json().catch(() => null);
-        if (json === null) {
+        if (json === null || generation !== this.generation) {
           continue;
         }
 
-        const record: CaptureRecord = {
-          url,
-          status,
-          method,
-          timestamp: Date.now(),
-          data: rule.transform ? rule.transform(json) : json,
-        };
-
-        if (!this.buffer[rule.name]) {
-          this.buffer[rule.name] = [];
+        for (const target of targets) {
+          const batched = Boolean(operations && operations.length > 1 && Array.isArray(json));
+          const body = batched ? (json as unknown[])[target.index] : json;
+          const extracted = rule.extractPath ? extractJsonPath(body, rule.extractPath) : body;
+          if (extracted === undefined) {
+            this.logger.debug({ rule: rule.name, extractPath: rule.extractPath, url }, 'Capture path not found');
+            continue;
+          }
+
+          const record: CaptureRecord = {
+            url,
+            status,
+            method,
+            timestamp: Date.now(),
+            operationName: target.operation?.operationName,
+            data: rule.transform ? rule.transform(extracted) : extracted,
+          };
+
+          if (!this.buffer[rule.name]) {
+            this.buffer[rule.name] = [];
+          }
+          this.buffer[rule.name].push(record);
         }
-        this.buffer[rule.name].push(record);
       } catch (error) {
         this.logger.debug({ err: error, url }, 'Failed to capture response');
       }
     }
   }
 
+  private matchesOperation(rule: CaptureRule, operation: GraphqlOperation): boolean {
+    const wanted = rule.operationName;
+    if (wanted) {
+      const name = operation.operationName ?? '';
+      if (typeof wanted === 'string' ? name !== wanted : !wanted.test(name)) {
+        return false;
+      }
+    }
+
+    if (rule.match && !rule.match(operation)) {
+      return false;
+    }
+
+    return true;
+  }
+
   private matchesRule(
     rule: CaptureRule,
     url: string,
@@ -77,7 +167,7 @@ export class NetworkCapture {
   ): boolean {
     const pattern = rule.urlPattern;
 
-    if (pattern !== '*' && pattern !== '') {
+    if (pattern !== undefined && pattern !== '*' && pattern !== '') {
       if (typeof pattern === 'string') {
         if (!url.includes(pattern)) {
           return false;
@@ -1,15 +1,62 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import { Command } from 'commander';
 import { flows, getFlow } from './flows';
-import { loadConfig, redactConfig, validateConfig } from './config';
+import {
+  loadConfig,
+  parseSessionCheckMode,
+  parseSummaryRenderer,
+  redactConfig,
+  validateConfig,
+  validateOptionalSecrets,
+} from './config';
 import { createLogger } from './logger';
 import { launchBrowser } from './browser';
 import { AppConfig, FlowContext } from './types';
-import { sessionStateExists, validateSession } from './auth';
+import { deleteSessionState, sessionStateExists, validateSession } from './auth';
 import { runFlow } from './flow-runner';
 import { NetworkCapture } from './capture';
-import { writeOutput, writeOutputWithSuffix, writeTextOutputWithSuffix } from './output';
-import { buildWorkoutSummaryByDay } from './summary';
-import { generateWorkoutWeekMarkdown } from './openai';
+import { writeOutputWithSuffix, writeTextOutputWithSuffix } from './output';
+import { writeArtifactBundle } from './artifacts';
+import { DiscoveryRecorder, writeDiscoveryCatalogue } from './discover';
+import {
+  captureSemanticsSnapshot,
+  INSPECT_ROUTES,
+  InspectFormat,
+  InspectRoute,
+  openInspectRoute,
+  parseInspectFormat,
+  parseInspectRoute,
+  renderSemanticsSnapshot,
+  runInspectRepl,
+  writeSemanticsSnapshot,
+} from './inspect';
+import { loadBookingPlan, runBookingPlan } from './plan';
+import { ensureValidSession, executeFlow, waitForEnter } from './run';
+import { withSessionLock } from './lock';
+import { loadSchedule, runDaemon } from './daemon';
+import { nextCronRun } from './cron';
+import { readRunHistory } from './history';
+import { buildBookingCalendar, hasCalendarEvents } from './ics';
+import {
+  listProfiles,
+  profileExists,
+  profilesDir,
+  profileStateDir,
+  readProfileEnv,
+  removeProfile,
+  writeProfile,
+} from './profiles';
+import { formatSecretStatus, isSecretKey, readVault, SECRET_KEYS, vaultPassphrase, writeVault } from './secrets';
+import { loadMockFixtures, startMockServer } from './mock-server';
+import {
+  exportSession,
+  importSession,
+  inspectSession,
+  quickSessionCheck,
+  refreshSession,
+  rotateSessionKey,
+} from './session';
 
 function parseCliNumber(value: string | undefined, fallback: number): number {
   if (!value) {
@@ -37,10 +84,23 @@ function applyRunOverrides(
     headless?: boolean;
     slowMo?: string;
     timeout?: string;
+    trace?: boolean;
+    saveTraces?: boolean;
+    summaryRenderer?: string;
+    recordHar?: string;
+    replayHar?: string;
   }
 ): AppConfig {
   const next = { ...config };
 
+  if (options.trace) {
+    next.trace = true;
+  }
+
+  if (options.saveTraces) {
+    next.saveTraces = true;
+  }
+
   if (options.headless !== undefined) {
     next.headless = options.headless;
   }
@@ -53,6 +113,17 @@ function applyRunOverrides(
     next.globalTimeout = parseCliNumber(options.timeout, config.globalTimeout);
   }
 
+  if (options.recordHar || options.replayHar) {
+    next.har = {
+      recordPath: options.recordHar ?? config.har.recordPath,
+      replayPath: options.replayHar ?? config.har.replayPath,
+    };
+  }
+
+  if (options.summaryRenderer !== undefined) {
+    next.summaryRenderer = parseSummaryRenderer(options.summaryRenderer, config.summaryRenderer);
+  }
+
   return next;
 }
 
@@ -65,29 +136,60 @@ function isMissingBrowserError(error: unknown): boolean {
   return message.includes('executable doesn') || message.includes('playwright install');
 }
 
-function slugify(value: string): string {
-  return value
-    .normalize('NFKD')
-    .replace(/[^\x00-\x7F]/g, '')
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-}
-
-async function waitForEnter(): Promise<void> {
-  if (!process.stdin.isTTY) {
+async function waitForEnterOrTimeout(timeoutMs?: number): Promise<void> {
+  if (!process.stdin.isTTY && !timeoutMs) {
     return;
   }
 
   return new Promise((resolve) => {
-    process.stdin.resume();
-    process.stdin.once('data', () => {
+    let timer: NodeJS.Timeout | undefined;
+    const finish = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      process.stdin.off('data', finish);
+      process.stdin.pause();
       resolve();
-    });
+    };
+
+    if (timeoutMs) {
+      timer = setTimeout(finish, timeoutMs);
+    }
+    if (process.stdin.isTTY) {
+      process.stdin.resume();
+      process.stdin.once('data', finish);
+    }
   });
 }
 
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function requireVaultPassphrase(config: AppConfig): string {
+  const env = config.profile ? { ...process.env, ...readProfileEnv(config.profile) } : process.env;
+  const passphrase = vaultPassphrase(env);
+  if (!passphrase) {
+    throw new Error('Set PUSHPRESS_VAULT_PASSPHRASE or PUSHPRESS_VAULT_PASSPHRASE_CMD to use the vault.');
+  }
+  return passphrase;
+}
+
 const program = new Command();
 
 program
@@ -95,17 +197,19 @@ program
   .description('PushPress client CLI for member workflows')
   .version('0.1.0')
   .option('--config <path>', 'Path to config file', '.env')
+  .option('--profile <name>', 'Account profile to use (see `profiles list`)')
   .option('--verbose', 'Enable debug logging');
 
 program
   .command('list')
   .description('List available flows')
   .action(() => {
-    const { config: configPath, verbose } = program.opts<{
+    const { config: configPath, profile, verbose } = program.opts<{
       config: string;
+      profile?: string;
       verbose?: boolean;
     }>();
-    const config = loadConfig({ path: configPath });
+    const config = loadConfig({ path: configPath, profile });
     const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
 
     logger.debug({ flowCount: flows.length }, 'Listing flows');
@@ -126,17 +230,21 @@ program
   .description('Show resolved configuration (redacted)')
   .option('--validate', 'Validate required config values')
   .action((options) => {
-    const { config: configPath, verbose } = program.opts<{
+    const { config: configPath, profile, verbose } = program.opts<{
       config: string;
+      profile?: string;
       verbose?: boolean;
     }>();
-    const config = loadConfig({ path: configPath });
+    const config = loadConfig({ path: configPath, profile });
     const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
-    const errors = validateConfig(config);
-
-    logger.debug({ errorCount: errors.length }, 'Config validation complete');
-
     if (options.validate) {
+      const errors = validateConfig(config);
+      const warnings = validateOptionalSecrets(config);
+      logger.debug({ errorCount: errors.length, warningCount: warnings.length }, 'Config validation complete');
+
+      for (const warning of warnings) {
+        console.error(`Warning: ${warning.field}: ${warning.message}`);
+      }
       if (errors.length > 0) {
         console.error('Config errors:');
         for (const error of errors) {
@@ -154,12 +262,14 @@ program
 program
   .command('validate-session')
   .description('Check if the saved session is still valid')
-  .action(async () => {
-    const { config: configPath, verbose } = program.opts<{
+  .option('--check <mode>', 'offline (stored token expiry), http (plus an API probe) or browser', 'browser')
+  .action(async (options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
       config: string;
+      profile?: string;
       verbose?: boolean;
     }>();
-    const config = loadConfig({ path: configPath });
+    const config = loadConfig({ path: configPath, profile });
     const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
 
     if (!sessionStateExists(config)) {
@@ -169,6 +279,19 @@ program
     }
 
     try {
+      const mode = parseSessionCheckMode(options.check, 'browser');
+      if (mode !== 'browser') {
+        const quick = await quickSessionCheck(config, logger, { probe: mode === 'http' });
+        if (quick.status !== 'unknown') {
+          console.log(`Session is ${quick.status} (${quick.reason}).`);
+          if (quick.status === 'invalid') {
+            process.exitCode = 1;
+          }
+          return;
+        }
+        logger.info({ reason: quick.reason }, 'Quick check was inconclusive; validating in the browser');
+      }
+
       const session = await launchBrowser(config);
       try {
         const valid = await validateSession(session.page, config, logger);
@@ -201,24 +324,43 @@ program
   .option('--timeout <ms>', 'Global timeout in ms')
   .option('--dry-run', 'Log actions without executing them')
   .option('--pause', 'Pause before closing the browser')
+  .option('--trace', 'Record a Playwright trace into the artifact bundle (credential entry is left out)')
+  .option('--save-traces', 'Write the artifact bundle (screenshot, DOM, trace) even on success')
   .option('--days <list>', 'Comma-separated days for schedule booking (e.g., mon,wed,fri)')
   .option('--time <time>', 'Time label to match (e.g., \"5:00 PM\")')
+  .option('--fallback-time <list>', 'Comma-separated times to try in order when --time is full or missing')
   .option('--class <name...>', 'Class name filter (default: CrossFit)')
   .option('--type <name...>', 'Class type filter (alias for --class)')
   .option('--category <name>', 'Schedule category (Classes/Appointments/Events/Reservations)')
   .option('--week <which>', 'Schedule week to target (current/next/2/3...)')
   .option('--workout-type <name...>', 'Workout type to select on the Workouts tab')
   .option('--waitlist', 'Allow joining waitlists when class is full')
-  .option('--confirm', 'Confirm and perform booking actions')
+  .option('--wait-for-open', 'Wait for a "Reserve soon" slot to open and book it')
+  .option('--open-at <when>', 'When the reservation window opens (e.g., \"17:00\" or \"2025-01-06T17:00\")')
+  .option('--booking-window <hours>', 'Hours before class start that reservations open')
+  .option('--max-wait <minutes>', 'Maximum minutes to wait for the window to open (default: 60)')
+  .option('--confirm', 'Confirm and perform booking or cancel actions')
+  .option('--api', 'Fetch data through the GraphQL API first, falling back to UI automation')
+  .option('--summary-renderer <name>', 'Markdown summary renderer for workout-week (local/openai)')
+  .option('--all-profiles', 'Run the flow once per profile, in sequence')
+  .option('--record-har <path>', 'Record the full network session of the run to a HAR file')
+  .option('--replay-har <path>', 'Serve all network traffic from a recorded HAR file (offline)')
   .action(async (flowName, options) => {
-    const { config: configPath, verbose } = program.opts<{
+    const { config: configPath, profile, verbose } = program.opts<{
       config: string;
+      profile?: string;
       verbose?: boolean;
     }>();
-    const baseConfig = loadConfig({ path: configPath });
+    const baseConfig = loadConfig({ path: configPath, profile });
     const config = applyRunOverrides(baseConfig, options);
     const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
 
+    if (options.replayHar && (options.api || options.recordHar)) {
+      logger.error('--replay-har cannot be combined with --api or --record-har.');
+      process.exitCode = 1;
+      return;
+    }
+
     const flow = getFlow(flowName);
     if (!flow) {
       logger.error({ flow: flowName }, 'Unknown flow');
@@ -236,148 +378,846 @@ program
       return;
     }
 
-    logger.info(
-      { flow: flow.name, sessionStateExists: sessionStateExists(config) },
-      'Launching browser'
-    );
+    const workoutTypeOption = normalizeCliText(options.workoutType);
+    const classOption = normalizeCliText(options.class) ?? normalizeCliText(options.type);
+    const params: Record<string, string | undefined> = {
+      days: options.days,
+      time: options.time,
+      fallbackTime: options.fallbackTime,
+      class: classOption,
+      category: options.category,
+      week: options.week,
+      workoutType: workoutTypeOption,
+      waitlist: options.waitlist ? 'true' : 'false',
+      waitForOpen: options.waitForOpen ? 'true' : 'false',
+      openAt: options.openAt,
+      bookingWindow: options.bookingWindow,
+      maxWait: options.maxWait,
+      confirm: options.confirm ? 'true' : 'false',
+      api: options.api ? 'true' : 'false',
+    };
 
-    try {
-      const session = await launchBrowser(config);
+    if (options.allProfiles) {
+      const profiles = listProfiles();
+      if (profiles.length === 0) {
+        logger.error({ profilesDir: profilesDir() }, 'No profiles found. Add one with `profiles add <name>`.');
+        process.exitCode = 1;
+        return;
+      }
 
-      try {
-        const capture = new NetworkCapture(session.page, logger);
-        const workoutTypeOption = normalizeCliText(options.workoutType);
-        const classOption = normalizeCliText(options.class) ?? normalizeCliText(options.type);
-        const params: Record<string, string | undefined> = {
-          days: options.days,
-          time: options.time,
-          class: classOption,
-          category: options.category,
-          week: options.week,
-          workoutType: workoutTypeOption,
-          waitlist: options.waitlist ? 'true' : 'false',
-          confirm: options.confirm ? 'true' : 'false',
-        };
-        const ctx: FlowContext = { config, logger, page: session.page, capture, params };
-
-        if (flow.name !== 'login') {
-          const hasSession = sessionStateExists(config);
-          if (hasSession) {
-            logger.info({ flow: flow.name }, 'Validating existing session');
-            const valid = await validateSession(session.page, config, logger);
-            if (!valid) {
-              logger.info({ flow: 'login' }, 'Session invalid; re-authenticating');
-              const loginFlow = getFlow('login');
-              if (!loginFlow) {
-                throw new Error('Login flow is not registered.');
-              }
-              await runFlow(loginFlow, ctx);
-            }
+      const results: string[] = [];
+      for (const entry of profiles) {
+        const profileConfig = applyRunOverrides(loadConfig({ path: configPath, profile: entry.name }), options);
+        const profileLogger = logger.child({ profile: entry.name });
+        profileLogger.info({ flow: flow.name }, 'Running flow for profile');
+        try {
+          const record = await executeFlow(flow, profileConfig, profileLogger, { params, pause: options.pause });
+          results.push(`${entry.name}: ok ${record.outputPath ?? ''}`.trim());
+        } catch (error) {
+          if (isMissingBrowserError(error)) {
+            profileLogger.error('Playwright browsers are missing. Run: npx playwright install');
+          } else {
+            profileLogger.error({ err: error }, 'Run failed');
           }
+          results.push(`${entry.name}: FAILED ${error instanceof Error ? error.message : String(error)}`);
+          process.exitCode = 1;
         }
+      }
 
-        const start = Date.now();
-        if (flow.name === 'schedule-book' && !options.confirm) {
-          logger.info('Schedule booking is running in dry mode. Use --confirm to book.');
-        }
+      for (const line of results) {
+        console.log(line);
+      }
+      return;
+    }
 
-        const result = await runFlow(flow, ctx);
-        const durationMs = Date.now() - start;
+    try {
+      await executeFlow(flow, config, logger, { params, pause: options.pause });
+    } catch (error) {
+      if (isMissingBrowserError(error)) {
+        logger.error('Playwright browsers are missing. Run: npx playwright install');
+      } else {
+        logger.error({ err: error }, 'Run failed');
+      }
+      process.exitCode = 1;
+    }
+  });
 
-        if (flow.name !== 'login') {
-          const workoutTypeParam = workoutTypeOption;
-          const workoutTypeSlug =
-            flow.name.startsWith('workout-') && workoutTypeParam ? slugify(workoutTypeParam) : '';
-          const workoutTypeSuffix = workoutTypeSlug ? `-${workoutTypeSlug}` : '';
+program
+  .command('book-plan')
+  .description('Book every entry of a YAML/JSON plan in one browser session')
+  .argument('<file>', 'Plan file (.yaml, .yml or .json)')
+  .option('--headless', 'Run in headless mode (default: true)')
+  .option('--no-headless', 'Run with visible browser')
+  .option('--slow-mo <ms>', 'Slow down actions by N ms')
+  .option('--timeout <ms>', 'Global timeout in ms')
+  .option('--pause', 'Pause before closing the browser')
+  .option('--trace', 'Record a Playwright trace into the artifact bundle (credential entry is left out)')
+  .option('--save-traces', 'Write the artifact bundle (screenshot, DOM, trace) even on success')
+  .option('--week <which>', 'Schedule week for every entry (overrides the plan)')
+  .option('--confirm', 'Confirm and perform booking actions')
+  .action(async (file, options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const baseConfig = loadConfig({ path: configPath, profile });
+    const config = applyRunOverrides(baseConfig, options);
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+
+    let plan;
+    try {
+      plan = loadBookingPlan(file);
+    } catch (error) {
+      logger.error({ err: error }, 'Booking plan rejected');
+      process.exitCode = 1;
+      return;
+    }
+
+    logger.info({ plan: file, entries: plan.entries.length }, 'Launching browser');
+    if (!options.confirm) {
+      logger.info('Booking plan is running in dry mode. Use --confirm to book.');
+    }
+
+    try {
+      await withSessionLock(config, logger, 'book-plan', async () => {
+        const session = await launchBrowser(config, { tracing: config.trace });
+        const capture = new NetworkCapture(session.page, logger);
+        const ctx: FlowContext = { config, logger, page: session.page, capture };
+
+        try {
+          await ensureValidSession(ctx, 'book-plan');
+
+          const start = Date.now();
+          const entries = await runBookingPlan(plan, ctx, {
+            confirm: Boolean(options.confirm),
+            week: options.week,
+          });
           const now = new Date();
           const envelope = {
             meta: {
               tool: 'cfcnx-pushpress-cli',
               version: '0.1.0',
-              flow: flow.name,
+              flow: 'book-plan',
               appUrl: config.baseUrl,
               timestamp: now.toISOString(),
-              durationMs,
-              stepsCompleted: result.stepsCompleted,
-              stepsTotal: flow.steps.length,
-              success: true,
+              durationMs: Date.now() - start,
+              stepsCompleted: entries.filter((entry) => entry.status !== 'failed').length,
+              stepsTotal: entries.length,
+              success: entries.every((entry) => entry.status !== 'failed'),
+            },
+            data: {
+              plan: file,
+              entries,
+              bookings: entries.flatMap((entry) => entry.bookings),
+              matches: entries.flatMap((entry) => entry.matches),
+              attempts: entries.flatMap((entry) => entry.attempts),
             },
-            data: result.data,
-            errors: [],
+            errors: entries
+              .filter((entry) => entry.error)
+              .map((entry) => `entry ${entry.index}: ${entry.error}`),
           };
 
-          const outputPath = writeOutputWithSuffix(
-            config,
-            flow.name,
-            envelope,
-            workoutTypeSuffix,
-            now
-          );
+          const outputPath = writeOutputWithSuffix(config, 'book-plan', envelope, '', now);
           logger.info({ outputPath }, 'Output written');
 
-          if (flow.name === 'workout-week') {
-            const summarySource = {
-              workoutsWeek: result.data['workouts-week'],
-              workoutHistoryWeek: result.data['workout-history-week'],
-              weekRaw: result.data['week-raw'],
-            } as Record<string, unknown>;
-            const summary = buildWorkoutSummaryByDay(summarySource);
-            const summaryEnvelope = {
-              meta: {
-                ...envelope.meta,
-                flow: `${flow.name}-summary`,
-              },
-              data: {
-                summaryByDay: summary,
-              },
-              errors: [],
-            };
-            const summaryPath = writeOutputWithSuffix(
+          if (hasCalendarEvents(envelope.data.bookings)) {
+            const calendarPath = writeTextOutputWithSuffix(
               config,
-              flow.name,
-              summaryEnvelope,
-              `${workoutTypeSuffix}-summary`,
+              'book-plan',
+              buildBookingCalendar(envelope.data.bookings, { calendarName: 'PushPress bookings', now }),
+              '',
+              '.ics',
               now
             );
-            logger.info({ summaryPath }, 'Summary output written');
-
-            try {
-              const markdown = await generateWorkoutWeekMarkdown(
-                config,
-                summaryEnvelope,
-                logger
-              );
-              const markdownPath = writeTextOutputWithSuffix(
-                config,
-                flow.name,
-                markdown,
-                `${workoutTypeSuffix}-summary`,
-                '.md',
-                now
-              );
-              logger.info({ markdownPath }, 'Markdown summary written');
-            } catch (error) {
-              logger.warn({ err: error }, 'Markdown summary generation skipped');
-            }
+            logger.info({ calendarPath }, 'Calendar written');
+          }
+
+          for (const entry of entries) {
+            console.log(`- ${entry.entry.day} ${entry.entry.time} ${entry.entry.class}: ${entry.status}`);
+          }
+          if (!envelope.meta.success) {
+            process.exitCode = 1;
+          }
+
+          if (config.saveTraces) {
+            const artifactsPath = await writeArtifactBundle(config, logger, {
+              flowName: 'book-plan',
+              reason: 'success',
+              page: ctx.page,
+              context: session.context,
+              capture,
+            });
+            logger.info({ artifactsPath }, 'Artifacts written');
           }
+
+          if (options.pause) {
+            logger.info('Plan complete. Press Enter to close the browser.');
+            await waitForEnter();
+          }
+        } catch (error) {
+          const artifactsPath = await writeArtifactBundle(config, logger, {
+            flowName: 'book-plan',
+            reason: 'failure',
+            page: ctx.page,
+            context: session.context,
+            capture,
+            error,
+          }).catch((artifactError) => {
+            logger.debug({ err: artifactError }, 'Failed to write artifact bundle');
+            return undefined;
+          });
+          if (artifactsPath) {
+            logger.error({ artifactsPath }, 'Failure artifacts written');
+          }
+          throw error;
+        } finally {
+          await session.close();
+          logger.info({ flow: 'book-plan' }, 'Browser closed.');
         }
+      });
+    } catch (error) {
+      if (isMissingBrowserError(error)) {
+        logger.error('Playwright browsers are missing. Run: npx playwright install');
+      } else {
+        logger.error({ err: error }, 'Booking plan failed');
+      }
+      process.exitCode = 1;
+    }
+  });
 
-        if (options.pause) {
-          logger.info('Flow complete. Press Enter to close the browser.');
-          await waitForEnter();
+program
+  .command('discover')
+  .description('Record GraphQL/JSON traffic and write an operation catalogue')
+  .option('--headless', 'Run in headless mode (default: true)')
+  .option('--no-headless', 'Run with visible browser')
+  .option('--slow-mo <ms>', 'Slow down actions by N ms')
+  .option('--timeout <ms>', 'Global timeout in ms')
+  .option('--seconds <n>', 'Stop recording after N seconds (default: until Enter, or 60 without a TTY)')
+  .option('--output <path>', 'Catalogue path (default: PUSHPRESS_API_CATALOG or <OUTPUT_DIR>/discovered-endpoints.json)')
+  .action(async (options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const baseConfig = loadConfig({ path: configPath, profile });
+    const config = applyRunOverrides(baseConfig, options);
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+
+    const seconds = parseCliNumber(options.seconds, process.stdin.isTTY ? 0 : 60);
+    const outputPath = options.output ?? config.api.catalogPath;
+
+    try {
+      await withSessionLock(config, logger, 'discover', async () => {
+        const session = await launchBrowser(config);
+
+        try {
+          const ctx: FlowContext = { config, logger, page: session.page };
+          await ensureValidSession(ctx, 'discover');
+
+          const recorder = new DiscoveryRecorder(session.context, logger);
+          recorder.start();
+          await session.page.goto(config.baseUrl, { waitUntil: 'domcontentloaded' });
+
+          if (seconds > 0) {
+            logger.info({ seconds }, 'Recording traffic. Interact with the app; press Enter to stop early.');
+          } else {
+            logger.info('Recording traffic. Interact with the app and press Enter to stop.');
+          }
+          await waitForEnterOrTimeout(seconds > 0 ? seconds * 1000 : undefined);
+          recorder.stop();
+
+          const catalogue = recorder.catalogue(config.baseUrl);
+          const writtenPath = writeDiscoveryCatalogue(outputPath, catalogue);
+          logger.info(
+            { outputPath: writtenPath, operations: catalogue.operations.length },
+            'Discovery catalogue written'
+          );
+
+          for (const operation of catalogue.operations) {
+            const fields = operation.rootFields.length > 0 ? ` [${operation.rootFields.join(', ')}]` : '';
+            console.log(`- ${operation.key} (${operation.kind}, ${operation.count}x)${fields}`);
+          }
+        } finally {
+          await session.close();
         }
-      } finally {
-        await session.close();
-        logger.info({ flow: flow.name }, 'Browser closed.');
+      });
+    } catch (error) {
+      if (isMissingBrowserError(error)) {
+        logger.error('Playwright browsers are missing. Run: npx playwright install');
+      } else {
+        logger.error({ err: error }, 'Discovery failed');
       }
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('inspect [route]')
+  .description(`Print the Flutter semantics tree for an app route (${INSPECT_ROUTES.join(', ')})`)
+  .option('--format <format>', 'Output format: tree or json', 'tree')
+  .option('--output <path>', 'Write the snapshot to a file instead of stdout')
+  .option('--interactive', 'Open a prompt to test label regexes against the live tree')
+  .option('--headless', 'Run in headless mode (default: true)')
+  .option('--no-headless', 'Run with visible browser')
+  .option('--slow-mo <ms>', 'Slow down actions by N ms')
+  .option('--timeout <ms>', 'Global timeout in ms')
+  .action(async (routeArg: string | undefined, options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const baseConfig = loadConfig({ path: configPath, profile });
+    const config = applyRunOverrides(baseConfig, options);
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+
+    let route: InspectRoute;
+    let format: InspectFormat;
+    try {
+      route = parseInspectRoute(routeArg);
+      format = parseInspectFormat(options.format);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      await withSessionLock(config, logger, 'inspect', async () => {
+        const session = await launchBrowser(config);
+
+        try {
+          const ctx: FlowContext = { config, logger, page: session.page };
+          const flutter = await openInspectRoute(ctx, route);
+          const snapshot = await captureSemanticsSnapshot(flutter, route);
+          const rendered = renderSemanticsSnapshot(snapshot, format);
+
+          if (options.output) {
+            const writtenPath = writeSemanticsSnapshot(options.output, rendered);
+            logger.info({ outputPath: writtenPath, nodes: snapshot.meta.nodeCount }, 'Semantics snapshot written');
+          } else {
+            console.log(rendered);
+          }
+
+          if (options.interactive) {
+            await runInspectRepl(flutter);
+          }
+        } finally {
+          await session.close();
+        }
+      });
     } catch (error) {
       if (isMissingBrowserError(error)) {
         logger.error('Playwright browsers are missing. Run: npx playwright install');
       } else {
-        logger.error({ err: error }, 'Run failed');
+        logger.error({ err: error }, 'Inspect failed');
+      }
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('daemon')
+  .description('Run flows on cron schedules from a YAML/JSON schedule config')
+  .option('--schedule <path>', 'Schedule config path', 'schedule.yaml')
+  .option('--headless', 'Run in headless mode (default: true)')
+  .option('--no-headless', 'Run with visible browser')
+  .option('--slow-mo <ms>', 'Slow down actions by N ms')
+  .option('--timeout <ms>', 'Global timeout in ms')
+  .option('--trace', 'Record a Playwright trace into the artifact bundle (credential entry is left out)')
+  .option('--save-traces', 'Write the artifact bundle (screenshot, DOM, trace) even on success')
+  .option('--list', 'Print scheduled jobs and their next run, then exit')
+  .action(async (options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const baseConfig = loadConfig({ path: configPath, profile });
+    const config = applyRunOverrides(baseConfig, options);
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+
+    let jobs;
+    try {
+      jobs = loadSchedule(options.schedule);
+    } catch (error) {
+      logger.error({ err: error }, 'Schedule config rejected');
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.list) {
+      for (const job of jobs) {
+        const nextRun = nextCronRun(job.cron)?.toISOString() ?? 'never';
+        console.log(`- ${job.name}: ${job.flow.name} (${job.cron.source}) next ${nextRun}`);
       }
+      return;
+    }
+
+    const controller = new AbortController();
+    const stop = (signal: NodeJS.Signals) => {
+      logger.info({ signal }, 'Stopping daemon after the current run');
+      controller.abort();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    logger.info({ schedule: options.schedule, jobs: jobs.length }, 'Daemon started');
+    await runDaemon(jobs, config, logger, { signal: controller.signal });
+  });
+
+program
+  .command('runs')
+  .description('Show the run history')
+  .option('--limit <n>', 'Number of most recent runs to show', '20')
+  .option('--flow <name>', 'Only show runs of this flow')
+  .option('--job <name>', 'Only show runs of this daemon job')
+  .option('--json', 'Print records as JSON')
+  .action((options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    const records = readRunHistory(config, {
+      limit: parseCliNumber(options.limit, 20),
+      flow: options.flow,
+      job: options.job,
+      profile: config.profile,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(records, null, 2));
+      return;
+    }
+
+    if (records.length === 0) {
+      console.log('No runs recorded.');
+      return;
+    }
+
+    for (const record of records) {
+      const status = record.success ? 'ok' : 'FAILED';
+      const trigger = record.job ? `${record.trigger}:${record.job}` : record.trigger;
+      const source = record.profile ? `${trigger}@${record.profile}` : trigger;
+      const detail = record.success ? record.outputPath ?? '' : record.error ?? '';
+      console.log(
+        `${record.startedAt}  ${status.padEnd(6)} ${record.flow.padEnd(16)} ${source.padEnd(24)} ${(record.durationMs / 1000).toFixed(1)}s  ${detail}`
+      );
+    }
+  });
+
+program
+  .command('mock-server')
+  .description('Serve a local stand-in for the PushPress member app and its GraphQL API')
+  .option('--port <n>', 'Port to listen on', '4010')
+  .option('--host <host>', 'Host to bind', '127.0.0.1')
+  .option('--fixtures <path>', 'YAML/JSON fixtures (member, workouts, classes)')
+  .option('--latency <ms>', 'Delay added to every GraphQL response', '250')
+  .action(async (options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const config = loadConfig({ path: configPath, profile });
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+
+    let fixtures;
+    try {
+      fixtures = options.fixtures ? loadMockFixtures(options.fixtures) : undefined;
+    } catch (error) {
+      logger.error({ err: error }, 'Mock fixtures rejected');
       process.exitCode = 1;
+      return;
+    }
+
+    const server = await startMockServer({
+      port: parseCliNumber(options.port, 4010),
+      host: options.host,
+      fixtures,
+      latencyMs: parseCliNumber(options.latency, 250),
+      logger,
+    });
+    logger.info(
+      { url: server.url, email: server.fixtures.member.email },
+      'Mock PushPress server listening; set PUSHPRESS_BASE_URL to its url'
+    );
+
+    await new Promise<void>((resolve) => {
+      const stop = (signal: NodeJS.Signals) => {
+        logger.info({ signal }, 'Stopping mock server');
+        resolve();
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+    });
+    await server.close();
+  });
+
+const profilesCommand = program.command('profiles').description('Manage named account profiles');
+
+profilesCommand
+  .command('list')
+  .description('List profiles')
+  .option('--json', 'Print profiles as JSON')
+  .action((options) => {
+    const profiles = listProfiles();
+    if (options.json) {
+      console.log(JSON.stringify(profiles, null, 2));
+      return;
+    }
+
+    if (profiles.length === 0) {
+      console.log(`No profiles in ${profilesDir()}.`);
+      return;
+    }
+
+    for (const entry of profiles) {
+      console.log(`- ${entry.name}: ${entry.email || '(no email)'}`);
+    }
+  });
+
+profilesCommand
+  .command('add')
+  .description('Create or update a profile')
+  .argument('<name>', 'Profile name (letters, numbers, "-" or "_")')
+  .option('--email <email>', 'PushPress account email')
+  .option('--password-stdin', "Read the password from stdin and store it in the profile's vault")
+  .option('--password-cmd <command>', 'Shell command that prints the password (stored as PUSHPRESS_PASSWORD_CMD)')
+  .option('--set <entries...>', 'Extra config defaults as KEY=VALUE (e.g., HEADLESS=false)')
+  .action(async (name, options) => {
+    const values: Record<string, string | undefined> = {};
+    for (const entry of (options.set ?? []) as string[]) {
+      const index = entry.indexOf('=');
+      if (index <= 0) {
+        console.error(`Invalid --set entry "${entry}". Use KEY=VALUE.`);
+        process.exitCode = 1;
+        return;
+      }
+      const key = entry.slice(0, index).trim();
+      if (isSecretKey(key)) {
+        console.error(`Do not pass ${key} with --set. Store it with "secrets set ${key}" or use ${key}_CMD.`);
+        process.exitCode = 1;
+        return;
+      }
+      values[key] = entry.slice(index + 1).trim();
+    }
+
+    if (options.passwordStdin && options.passwordCmd) {
+      console.error('Use either --password-stdin or --password-cmd.');
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.email) {
+      values.PUSHPRESS_EMAIL = options.email;
+    }
+    if (options.passwordCmd) {
+      values.PUSHPRESS_PASSWORD = undefined;
+      values.PUSHPRESS_PASSWORD_CMD = options.passwordCmd;
+    }
+    const password = options.passwordStdin ? (await readStdin()).trim() : '';
+    if (options.passwordStdin && !password) {
+      console.error('Password is empty.');
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      if (!profileExists(name) && !values.PUSHPRESS_EMAIL) {
+        console.error('New profiles need --email.');
+        process.exitCode = 1;
+        return;
+      }
+      const filePath = writeProfile(name, values);
+      console.log(`Profile ${name} saved to ${filePath}`);
+
+      if (password) {
+        const { config: configPath } = program.opts<{ config: string }>();
+        const config = loadConfig({ path: configPath, profile: name });
+        const passphrase = requireVaultPassphrase(config);
+        const vault = readVault(config.vaultPath, passphrase);
+        vault.PUSHPRESS_PASSWORD = password;
+        writeVault(config.vaultPath, passphrase, vault);
+        writeProfile(name, { PUSHPRESS_PASSWORD: undefined, PUSHPRESS_PASSWORD_CMD: undefined });
+        console.log(`Stored PUSHPRESS_PASSWORD in ${config.vaultPath}`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  });
+
+profilesCommand
+  .command('remove')
+  .description('Delete a profile')
+  .argument('<name>', 'Profile name')
+  .option('--keep-state', 'Keep the saved session for this profile')
+  .action((name, options) => {
+    try {
+      const filePath = removeProfile(name);
+      console.log(`Removed ${filePath}`);
+      if (!options.keepState) {
+        const stateDir = profileStateDir(name);
+        if (fs.existsSync(stateDir)) {
+          fs.rmSync(stateDir, { recursive: true, force: true });
+          console.log(`Removed ${stateDir}`);
+        }
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  });
+
+const sessionCommand = program.command('session').description('Inspect and manage the saved session');
+
+sessionCommand
+  .command('info')
+  .description('Show the saved session, its tokens and expiry')
+  .option('--json', 'Print as JSON')
+  .action((options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    const info = inspectSession(config);
+
+    if (options.json) {
+      console.log(JSON.stringify(info, null, 2));
+    } else if (!info.exists) {
+      console.log(`No session state at ${info.path}.`);
+    } else {
+      console.log(`Session: ${info.path}${info.encrypted ? ' (encrypted)' : ''}`);
+      console.log(`Saved: ${info.savedAt}`);
+      if (info.meta.importedAt) {
+        console.log(`Imported: ${info.meta.importedAt} from ${info.meta.importedFrom}`);
+      }
+      const validation =
+        info.meta.lastValidationResult === undefined ? '' : info.meta.lastValidationResult ? ' (valid)' : ' (invalid)';
+      console.log(`Last validated: ${info.meta.lastValidatedAt ?? 'never'}${validation}`);
+      console.log(`Cookies (${info.cookies}): ${info.cookieNames.join(', ') || '-'}`);
+      console.log(`Origins: ${info.origins}`);
+      for (const token of info.tokens) {
+        console.log(`Token ${token.source}: expires ${token.expiresAt ?? 'unknown'}`);
+      }
+      const status =
+        info.expiresInMs === undefined
+          ? 'unknown'
+          : info.expired
+            ? 'EXPIRED'
+            : `in ${formatDuration(info.expiresInMs)}`;
+      console.log(`Expires: ${info.expiresAt ?? 'unknown'} (${status})`);
+    }
+
+    if (!info.exists || info.expired) {
+      process.exitCode = 1;
+    }
+  });
+
+sessionCommand
+  .command('clear')
+  .description('Delete the saved session')
+  .action(() => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    if (!sessionStateExists(config)) {
+      console.log(`No session state at ${config.sessionStatePath}.`);
+      return;
+    }
+    deleteSessionState(config);
+    console.log(`Removed ${config.sessionStatePath}`);
+  });
+
+sessionCommand
+  .command('export')
+  .description('Write the saved session to a file for another machine')
+  .argument('<file>', 'Export file path')
+  .option('--passphrase-stdin', 'Encrypt the export with a passphrase read from stdin')
+  .action(async (file, options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    const passphrase = options.passphraseStdin ? (await readStdin()).trim() : undefined;
+    if (options.passphraseStdin && !passphrase) {
+      console.error('Passphrase is empty.');
+      process.exitCode = 1;
+      return;
+    }
+
+    const exportPath = exportSession(config, file, passphrase);
+    console.log(`Session exported to ${exportPath}${passphrase ? ' (encrypted)' : ''}`);
+    if (!passphrase) {
+      console.log('Warning: the export is not encrypted and grants access to your account. Use --passphrase-stdin.');
+    }
+  });
+
+sessionCommand
+  .command('import')
+  .description('Replace the saved session with an exported one')
+  .argument('<file>', 'Export file path')
+  .option('--passphrase-stdin', 'Read the export passphrase from stdin')
+  .option('--force', 'Replace an existing session')
+  .action(async (file, options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    const passphrase = options.passphraseStdin ? (await readStdin()).trim() : undefined;
+
+    const bundle = importSession(config, file, { passphrase, force: options.force });
+    console.log(`Session imported to ${config.sessionStatePath} (exported ${bundle.exportedAt})`);
+    if (bundle.baseUrl !== config.baseUrl) {
+      console.log(`Warning: the export was made for ${bundle.baseUrl}, but PUSHPRESS_BASE_URL is ${config.baseUrl}.`);
+    }
+  });
+
+sessionCommand
+  .command('refresh')
+  .description('Log in again when the session is missing, expired or about to expire')
+  .option('--threshold <minutes>', 'Refresh when the session expires within this many minutes', '1440')
+  .option('--force', 'Log in even if the session is still fresh')
+  .option('--headless', 'Run in headless mode (default: true)')
+  .option('--no-headless', 'Run with visible browser')
+  .option('--timeout <ms>', 'Global timeout in ms')
+  .action(async (options) => {
+    const { config: configPath, profile, verbose } = program.opts<{
+      config: string;
+      profile?: string;
+      verbose?: boolean;
+    }>();
+    const config = applyRunOverrides(loadConfig({ path: configPath, profile }), options);
+    const logger = createLogger(config, { level: verbose ? 'debug' : undefined });
+    const thresholdMs = parseCliNumber(options.threshold, 1440) * 60 * 1000;
+
+    try {
+      const result = await refreshSession(config, logger, { thresholdMs, force: options.force });
+      if (!result.refreshed) {
+        console.log(
+          result.reason === 'fresh'
+            ? `Session is fresh; expires ${result.before.expiresAt} (in ${formatDuration(result.before.expiresInMs ?? 0)}).`
+            : 'Session expiry is unknown; run validate-session or use --force.'
+        );
+        return;
+      }
+      console.log(`Session refreshed (${result.reason}); expires ${result.after?.expiresAt ?? 'unknown'}.`);
+    } catch (error) {
+      if (isMissingBrowserError(error)) {
+        logger.error('Playwright browsers are missing. Run: npx playwright install');
+      } else {
+        logger.error({ err: error }, 'Session refresh failed');
+      }
+      process.exitCode = 1;
+    }
+  });
+
+sessionCommand
+  .command('rotate')
+  .description('Re-encrypt the saved session with a new key')
+  .option('--new-key-stdin', 'Read the new key from stdin (default: generate one)')
+  .option('--decrypt', 'Store the session unencrypted')
+  .action(async (options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+
+    let newKey = '';
+    if (!options.decrypt) {
+      newKey = options.newKeyStdin ? (await readStdin()).trim() : crypto.randomBytes(32).toString('base64');
+      if (!newKey) {
+        console.error('New session key is empty.');
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    rotateSessionKey(config, newKey);
+    console.log(`${newKey ? 'Re-encrypted' : 'Decrypted'} ${config.sessionStatePath}`);
+    if (!newKey) {
+      console.log('Unset PUSHPRESS_SESSION_KEY, or the next login will encrypt it again.');
+      return;
+    }
+
+    const { source } = config.secrets.status('PUSHPRESS_SESSION_KEY');
+    if (source === 'vault' || source === 'missing') {
+      try {
+        const passphrase = requireVaultPassphrase(config);
+        const values = readVault(config.vaultPath, passphrase);
+        values.PUSHPRESS_SESSION_KEY = newKey;
+        writeVault(config.vaultPath, passphrase, values);
+        console.log(`Stored the new PUSHPRESS_SESSION_KEY in ${config.vaultPath}`);
+        return;
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (!options.newKeyStdin) {
+      console.log(`New PUSHPRESS_SESSION_KEY: ${newKey}`);
+    }
+    console.log(`Update PUSHPRESS_SESSION_KEY (${source}) before the next run.`);
+  });
+
+const secretsCommand = program.command('secrets').description('Manage secrets in the encrypted vault');
+
+secretsCommand
+  .command('list')
+  .description('Show where each secret is resolved from')
+  .action(() => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    console.log(`Vault: ${config.vaultPath}${fs.existsSync(config.vaultPath) ? '' : ' (not created)'}`);
+    for (const key of SECRET_KEYS) {
+      console.log(`- ${key}: ${formatSecretStatus(config.secrets.status(key))}`);
+    }
+  });
+
+secretsCommand
+  .command('set')
+  .description('Store a secret in the vault')
+  .argument('<key>', `Secret name (${SECRET_KEYS.join(', ')})`)
+  .option('--value <value>', 'Secret value (default: read from stdin)')
+  .action(async (key, options) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    if (!isSecretKey(key)) {
+      console.error(`Unknown secret "${key}". Use one of: ${SECRET_KEYS.join(', ')}.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const config = loadConfig({ path: configPath, profile });
+    const passphrase = requireVaultPassphrase(config);
+    const value = options.value ?? (await readStdin()).trim();
+    if (!value) {
+      console.error('Secret value is empty.');
+      process.exitCode = 1;
+      return;
+    }
+
+    const values = readVault(config.vaultPath, passphrase);
+    values[key] = value;
+    writeVault(config.vaultPath, passphrase, values);
+    console.log(`Stored ${key} in ${config.vaultPath}`);
+    const { source } = config.secrets.status(key);
+    if (source === 'env' || source === 'command') {
+      console.log(`Note: ${key} is also set via ${source}, which takes precedence.`);
+    }
+  });
+
+secretsCommand
+  .command('remove')
+  .description('Delete a secret from the vault')
+  .argument('<key>', 'Secret name')
+  .action((key) => {
+    const { config: configPath, profile } = program.opts<{ config: string; profile?: string }>();
+    const config = loadConfig({ path: configPath, profile });
+    const passphrase = requireVaultPassphrase(config);
+    const values = readVault(config.vaultPath, passphrase);
+    if (!(key in values)) {
+      console.error(`${key} is not in the vault.`);
+      process.exitCode = 1;
+      return;
     }
+    delete values[key];
+    writeVault(config.vaultPath, passphrase, values);
+    console.log(`Removed ${key} from ${config.vaultPath}`);
   });
 
-program.parseAsync(process.argv);
+program.parseAsync(process.argv).catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+});
@@ -1,9 +1,13 @@
 import path from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { AppConfig, LogLevel } from './types';
+import { AppConfig, LogLevel, SessionCheckMode, SummaryProviderName, SummaryRenderer } from './types';
+import { assertProfileName, profileStateDir, readProfileEnv } from './profiles';
+import { createSecretStore, formatSecretStatus, SECRET_KEYS, SecretKey } from './secrets';
+import { DEFAULT_LABEL_LOCALE, loadLabels } from './labels';
 
 export interface LoadConfigOptions {
   path?: string;
+  profile?: string;
 }
 
 export interface ConfigValidationError {
@@ -17,10 +21,18 @@ const DEFAULT_SLOW_MO = 0;
 const DEFAULT_OUTPUT_DIR = './output';
 const DEFAULT_LOG_LEVEL: LogLevel = 'info';
 const DEFAULT_GLOBAL_TIMEOUT = 30000;
+const DEFAULT_TRACE = false;
 const DEFAULT_SAVE_TRACES = false;
 const DEFAULT_OPENAI_MODEL = 'gpt-3.5-turbo-16k';
+const DEFAULT_SUMMARY_TEMPERATURE = 0;
+const DEFAULT_SUMMARY_CACHE = true;
 
 const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const SUMMARY_RENDERERS: SummaryRenderer[] = ['local', 'openai'];
+const SUMMARY_PROVIDERS: SummaryProviderName[] = ['openai', 'openai-compatible', 'fixture'];
+const SESSION_CHECK_MODES: SessionCheckMode[] = ['offline', 'http', 'browser'];
+const CREDENTIAL_SECRET_KEYS: SecretKey[] = ['PUSHPRESS_PASSWORD'];
+const OPTIONAL_SECRET_KEYS: SecretKey[] = ['PUSHPRESS_SESSION_KEY', 'OPENAI_API_KEY', 'SUMMARY_API_KEY'];
 
 function parseBoolean(value: string | undefined, fallback: boolean): boolean {
   if (value === undefined) {
@@ -56,36 +68,119 @@ function parseLogLevel(value: string | undefined, fallback: LogLevel): LogLevel
   return LOG_LEVELS.includes(normalized as LogLevel) ? (normalized as LogLevel) : fallback;
 }
 
+export function parseSummaryRenderer(value: string | undefined, fallback: SummaryRenderer): SummaryRenderer {
+  if (!value) {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return SUMMARY_RENDERERS.includes(normalized as SummaryRenderer) ? (normalized as SummaryRenderer) : fallback;
+}
+
+function parseSummaryProvider(value: string | undefined, fallback: SummaryProviderName): SummaryProviderName {
+  if (!value) {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return SUMMARY_PROVIDERS.includes(normalized as SummaryProviderName)
+    ? (normalized as SummaryProviderName)
+    : fallback;
+}
+
+export function parseSessionCheckMode(value: string | undefined, fallback: SessionCheckMode): SessionCheckMode {
+  if (!value) {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return SESSION_CHECK_MODES.includes(normalized as SessionCheckMode) ? (normalized as SessionCheckMode) : fallback;
+}
+
+function withoutCredentials(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const next = { ...env };
+  for (const key of CREDENTIAL_SECRET_KEYS) {
+    delete next[key];
+    delete next[`${key}_CMD`];
+  }
+  return next;
+}
+
 export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
   dotenvConfig({ path: options.path });
 
-  const env = process.env;
+  const profileName = options.profile?.trim() || process.env.PUSHPRESS_PROFILE?.trim() || '';
+  const profile = profileName ? assertProfileName(profileName) : undefined;
+  const profileEnv = profile ? readProfileEnv(profile) : {};
+  const env: NodeJS.ProcessEnv = { ...process.env, ...profileEnv };
   const baseUrl = env.PUSHPRESS_BASE_URL?.trim() || DEFAULT_BASE_URL;
 
-  const outputDir = env.OUTPUT_DIR?.trim() || DEFAULT_OUTPUT_DIR;
-  const artifactsDir = path.resolve('./artifacts');
-  const sessionStatePath = path.resolve('./state/session.json');
+  const baseOutputDir = process.env.OUTPUT_DIR?.trim() || DEFAULT_OUTPUT_DIR;
+  const outputDir =
+    profileEnv.OUTPUT_DIR?.trim() || (profile ? path.join(baseOutputDir, 'profiles', profile) : baseOutputDir);
+  const artifactsDir = profile ? path.resolve('./artifacts/profiles', profile) : path.resolve('./artifacts');
+  const sessionStatePath = profile
+    ? path.join(profileStateDir(profile), 'session.json')
+    : path.resolve('./state/session.json');
+  const defaultVaultPath = profile
+    ? path.join(profileStateDir(profile), 'secrets.vault')
+    : process.env.PUSHPRESS_VAULT_PATH?.trim() || './state/secrets.vault';
+  const vaultPath = path.resolve(profileEnv.PUSHPRESS_VAULT_PATH?.trim() || defaultVaultPath);
+  const inheritedEnv = profileEnv.PUSHPRESS_EMAIL?.trim() ? withoutCredentials(process.env) : process.env;
+  const secrets = profile
+    ? createSecretStore(profileEnv, vaultPath, inheritedEnv)
+    : createSecretStore(process.env, vaultPath);
+  const runHistoryPath = path.resolve('./state/runs.jsonl');
   const defaultPromptPath = path.resolve('./prompts/workout-week-summary.md');
+  const defaultCatalogPath = path.join(baseOutputDir, 'discovered-endpoints.json');
+  const defaultSummaryCacheDir = path.resolve('./state/summary-cache');
+  const openaiModel = env.OPENAI_MODEL?.trim() || DEFAULT_OPENAI_MODEL;
 
   return {
+    profile,
     baseUrl,
     credentials: {
       email: env.PUSHPRESS_EMAIL?.trim() || '',
-      password: env.PUSHPRESS_PASSWORD?.trim() || '',
     },
     headless: parseBoolean(env.HEADLESS, DEFAULT_HEADLESS),
     slowMo: parseNumber(env.SLOW_MO, DEFAULT_SLOW_MO),
     outputDir,
     logLevel: parseLogLevel(env.LOG_LEVEL, DEFAULT_LOG_LEVEL),
     globalTimeout: parseNumber(env.GLOBAL_TIMEOUT, DEFAULT_GLOBAL_TIMEOUT),
+    trace: parseBoolean(env.TRACE, DEFAULT_TRACE),
     saveTraces: parseBoolean(env.SAVE_TRACES, DEFAULT_SAVE_TRACES),
+    har: {
+      recordPath: '',
+      replayPath: '',
+    },
     sessionStatePath,
+    sessionCheck: parseSessionCheckMode(env.SESSION_CHECK, 'offline'),
+    runHistoryPath,
+    vaultPath,
+    secrets,
     artifactsDir,
     openai: {
-      apiKey: env.OPENAI_API_KEY?.trim() || '',
-      model: env.OPENAI_MODEL?.trim() || DEFAULT_OPENAI_MODEL,
+      model: openaiModel,
       promptPath: env.OPENAI_PROMPT_PATH?.trim() || defaultPromptPath,
     },
+    summaryRenderer: parseSummaryRenderer(env.SUMMARY_RENDERER, 'openai'),
+    summaryProvider: {
+      provider: parseSummaryProvider(env.SUMMARY_PROVIDER, 'openai'),
+      baseUrl: env.SUMMARY_BASE_URL?.trim() || '',
+      model: env.SUMMARY_MODEL?.trim() || openaiModel,
+      temperature: parseNumber(env.SUMMARY_TEMPERATURE, DEFAULT_SUMMARY_TEMPERATURE),
+      fixturePath: env.SUMMARY_FIXTURE_PATH?.trim() || '',
+      cache: parseBoolean(env.SUMMARY_CACHE, DEFAULT_SUMMARY_CACHE),
+      cacheDir: env.SUMMARY_CACHE_DIR?.trim() || defaultSummaryCacheDir,
+    },
+    api: {
+      url: env.PUSHPRESS_API_URL?.trim() || '',
+      catalogPath: env.PUSHPRESS_API_CATALOG?.trim() || defaultCatalogPath,
+    },
+    labels: {
+      locale: env.PUSHPRESS_LABEL_LOCALE?.trim().toLowerCase() || DEFAULT_LABEL_LOCALE,
+      path: env.PUSHPRESS_LABELS_PATH?.trim() || '',
+    },
   };
 }
 
@@ -99,7 +194,10 @@ export function validateConfig(config: AppConfig): ConfigValidationError[] {
     });
   }
 
-  if (!config.credentials.password) {
+  const password = config.secrets.status('PUSHPRESS_PASSWORD');
+  if (password.error) {
+    errors.push({ field: 'PUSHPRESS_PASSWORD', message: password.error });
+  } else if (password.source === 'missing') {
     errors.push({
       field: 'PUSHPRESS_PASSWORD',
       message: 'Missing password (PUSHPRESS_PASSWORD).',
@@ -134,19 +232,50 @@ export function validateConfig(config: AppConfig): ConfigValidationError[] {
     });
   }
 
+  if (config.summaryProvider.provider === 'openai-compatible' && !config.summaryProvider.baseUrl) {
+    errors.push({
+      field: 'SUMMARY_BASE_URL',
+      message: 'SUMMARY_BASE_URL is required when SUMMARY_PROVIDER=openai-compatible.',
+    });
+  }
+
+  if (config.summaryProvider.provider === 'fixture' && !config.summaryProvider.fixturePath) {
+    errors.push({
+      field: 'SUMMARY_FIXTURE_PATH',
+      message: 'SUMMARY_FIXTURE_PATH is required when SUMMARY_PROVIDER=fixture.',
+    });
+  }
+
+  try {
+    loadLabels(config);
+  } catch (error) {
+    errors.push({
+      field: config.labels.path ? 'PUSHPRESS_LABELS_PATH' : 'PUSHPRESS_LABEL_LOCALE',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   return errors;
 }
 
-export function redactConfig(config: AppConfig): AppConfig {
+export function validateOptionalSecrets(config: AppConfig): ConfigValidationError[] {
+  return OPTIONAL_SECRET_KEYS.flatMap((key) => {
+    const { error } = config.secrets.status(key);
+    return error ? [{ field: key, message: error }] : [];
+  });
+}
+
+export type RedactedConfig = Omit<AppConfig, 'secrets'> & { secrets: Record<SecretKey, string> };
+
+export function redactConfig(config: AppConfig): RedactedConfig {
+  const { secrets, ...rest } = config;
   return {
-    ...config,
-    credentials: {
-      email: config.credentials.email,
-      password: config.credentials.password ? '***' : '',
-    },
-    openai: {
-      ...config.openai,
-      apiKey: config.openai.apiKey ? '***' : '',
-    },
+    ...rest,
+    secrets: Object.fromEntries(
+      SECRET_KEYS.map((key) => {
+        const status = secrets.peek(key);
+        return [key, status ? formatSecretStatus(status) : 'not resolved'];
+      })
+    ) as Record<SecretKey, string>,
   };
 }
@@ -0,0 +1,134 @@
+export interface CronSchedule {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+  const named = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return named + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    return NaN;
+  }
+  return Number(value);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  source: string,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}" in "${source}".`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(range, names, nameOffset);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${part}" in "${source}" (allowed ${min}-${max}).`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${source}".`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, source, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes: parseField(minute, 0, 59, source),
+    hours: parseField(hour, 0, 23, source),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, source),
+    months: parseField(month, 1, 12, source, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (
+    !schedule.minutes.has(date.getMinutes())
+    || !schedule.hours.has(date.getHours())
+    || !schedule.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+export function nextCronRun(schedule: CronSchedule, from = new Date()): Date | null {
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i += 1) {
+    if (cronMatches(schedule, candidate)) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+export interface EncryptedPayload {
+  version: 1;
+  kdf: 'scrypt';
+  cipher: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+}
+
+export function encryptText(plaintext: string, passphrase: string): EncryptedPayload {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt.');
+  }
+
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    cipher: 'aes-256-gcm',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+export function decryptText(payload: EncryptedPayload, passphrase: string): string {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to decrypt.');
+  }
+  if (payload.version !== 1 || payload.kdf !== 'scrypt' || payload.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported encrypted payload format.');
+  }
+
+  try {
+    const key = deriveKey(passphrase, Buffer.from(payload.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]).toString(
+      'utf-8'
+    );
+  } catch {
+    throw new Error('Failed to decrypt: wrong passphrase or corrupted data.');
+  }
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<EncryptedPayload>;
+  return candidate.kdf === 'scrypt' && typeof candidate.data === 'string' && typeof candidate.tag === 'string';
+}
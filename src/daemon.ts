@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from 'pino';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { AppConfig, FlowDefinition } from './types';
+import { getFlow } from './flows';
+import { CronSchedule, cronMatches, nextCronRun, parseCron } from './cron';
+import { executeFlow } from './run';
+
+const JobSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    cron: z.string().trim().min(1),
+    flow: z.string().trim().min(1),
+    params: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
+    enabled: z.boolean().default(true),
+  })
+  .strict();
+
+const ScheduleSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { jobs: value } : value),
+  z.object({ jobs: z.array(JobSchema).min(1) }).strict()
+);
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ScheduledJob {
+  name: string;
+  cron: CronSchedule;
+  flow: FlowDefinition;
+  params: Record<string, string | undefined>;
+}
+
+export interface DaemonOptions {
+  signal?: AbortSignal;
+}
+
+function floorToMinute(time: number): number {
+  return Math.floor(time / MINUTE_MS) * MINUTE_MS;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, Math.max(0, ms));
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export function loadSchedule(filePath: string): ScheduledJob[] {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Schedule config not found: ${resolved}`);
+  }
+
+  const raw = fs.readFileSync(resolved, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse schedule config ${resolved}: ${message}`);
+  }
+
+  const result = ScheduleSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid schedule config ${resolved}: ${issues}`);
+  }
+
+  const jobs: ScheduledJob[] = [];
+  const names = new Set<string>();
+  result.data.jobs.forEach((job, index) => {
+    if (!job.enabled) {
+      return;
+    }
+
+    const flow = getFlow(job.flow);
+    if (!flow) {
+      throw new Error(`Invalid schedule config ${resolved}: jobs.${index}.flow: unknown flow "${job.flow}"`);
+    }
+
+    let name = job.name ?? job.flow;
+    if (names.has(name)) {
+      if (job.name) {
+        throw new Error(`Invalid schedule config ${resolved}: jobs.${index}.name: duplicate job name "${name}"`);
+      }
+      name = `${job.flow}-${index + 1}`;
+    }
+    names.add(name);
+
+    const params: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(job.params)) {
+      params[key] = String(value);
+    }
+
+    let cron: CronSchedule;
+    try {
+      cron = parseCron(job.cron);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid schedule config ${resolved}: jobs.${index}.cron: ${message}`);
+    }
+
+    jobs.push({ name, cron, flow, params });
+  });
+
+  return jobs;
+}
+
+export async function runDaemon(
+  jobs: ScheduledJob[],
+  config: AppConfig,
+  logger: Logger,
+  options: DaemonOptions = {}
+): Promise<void> {
+  const { signal } = options;
+  let lastChecked = floorToMinute(Date.now());
+
+  for (const job of jobs) {
+    logger.info(
+      { job: job.name, flow: job.flow.name, cron: job.cron.source, nextRun: nextCronRun(job.cron)?.toISOString() },
+      'Scheduled job'
+    );
+  }
+
+  while (!signal?.aborted) {
+    await sleep(lastChecked + MINUTE_MS - Date.now(), signal);
+    if (signal?.aborted) {
+      break;
+    }
+
+    const now = floorToMinute(Date.now());
+    if (now <= lastChecked) {
+      continue;
+    }
+
+    const due: ScheduledJob[] = [];
+    for (let tick = lastChecked + MINUTE_MS; tick <= now; tick += MINUTE_MS) {
+      for (const job of jobs) {
+        if (!due.includes(job) && cronMatches(job.cron, new Date(tick))) {
+          due.push(job);
+        }
+      }
+    }
+    lastChecked = now;
+
+    for (const job of due) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      logger.info({ job: job.name, flow: job.flow.name }, 'Running scheduled job');
+      try {
+        const record = await executeFlow(job.flow, config, logger, {
+          params: job.params,
+          trigger: 'daemon',
+          job: job.name,
+        });
+        logger.info(
+          { job: job.name, runId: record.id, durationMs: record.durationMs, outputPath: record.outputPath },
+          'Scheduled job succeeded'
+        );
+      } catch (error) {
+        logger.error({ job: job.name, err: error }, 'Scheduled job failed');
+      }
+      logger.info({ job: job.name, nextRun: nextCronRun(job.cron)?.toISOString() }, 'Next run');
+    }
+  }
+
+  logger.info('Daemon stopped');
+}
@@ -0,0 +1,72 @@
+export const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type WeekdayKey = (typeof DAY_KEYS)[number];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function startOfWeek(now = new Date()): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+export function resolveWeekdayDate(day: WeekdayKey, weekOffset = 0, now = new Date()): Date {
+  const date = startOfWeek(now);
+  date.setDate(date.getDate() + weekOffset * 7 + DAY_KEYS.indexOf(day));
+  return date;
+}
+
+export function weekDates(weekOffset = 0, now = new Date()): Record<WeekdayKey, string> {
+  const dates = {} as Record<WeekdayKey, string>;
+  for (const day of DAY_KEYS) {
+    dates[day] = formatLocalDate(resolveWeekdayDate(day, weekOffset, now));
+  }
+  return dates;
+}
+
+export function parseTimeOfDay(value: string): { hours: number; minutes: number } | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm|a\.m\.|p\.m\.)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (minutes > 59 || hours > 23 || (meridiem && (hours < 1 || hours > 12))) {
+    return null;
+  }
+  if (meridiem === 'pm' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'am' && hours === 12) {
+    hours = 0;
+  }
+  return { hours, minutes };
+}
+
+export function atTimeOfDay(date: Date, time: string): Date | null {
+  const parsed = parseTimeOfDay(time);
+  if (!parsed) {
+    return null;
+  }
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setHours(parsed.hours, parsed.minutes, 0, 0);
+  return result;
+}
+
+export function parseDateTime(value: string, now = new Date()): Date | null {
+  const trimmed = value.trim();
+  const timeOnly = atTimeOfDay(now, trimmed);
+  if (timeOnly) {
+    return timeOnly;
+  }
+
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext, Response } from 'playwright';
+import type { Logger } from 'pino';
+import { GraphqlOperation, parseGraphqlOperations } from './graphql';
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface DiscoveredOperation {
+  key: string;
+  kind: 'graphql' | 'json';
+  operationName?: string;
+  rootFields: string[];
+  method: string;
+  urls: string[];
+  statuses: number[];
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  query?: string;
+  sampleVariables: Record<string, unknown>[];
+  responseShape: unknown;
+  responseSchema: JsonSchema;
+}
+
+export interface DiscoveryCatalogue {
+  meta: {
+    tool: string;
+    appUrl: string;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    responsesSeen: number;
+    operationCount: number;
+  };
+  operations: DiscoveredOperation[];
+}
+
+const MAX_SAMPLE_VARIABLES = 5;
+const MAX_URLS = 5;
+const MAX_SHAPE_DEPTH = 8;
+const CREDENTIAL_KEY = /password|passwd|token|secret|api_?key|^(email|username)$/i;
+export const REDACTED = '***';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function mergeTypes(a: JsonSchema['type'], b: JsonSchema['type']): JsonSchema['type'] {
+  const types = new Set<string>([
+    ...(Array.isArray(a) ? a : a ? [a] : []),
+    ...(Array.isArray(b) ? b : b ? [b] : []),
+  ]);
+  if (types.has('integer') && types.has('number')) {
+    types.delete('integer');
+  }
+  const list = Array.from(types).sort();
+  return list.length === 1 ? list[0] : list;
+}
+
+export function mergeJsonSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const merged: JsonSchema = { type: mergeTypes(a.type, b.type) };
+
+  if (a.properties || b.properties) {
+    const properties: Record<string, JsonSchema> = {};
+    const keys = new Set([...Object.keys(a.properties ?? {}), ...Object.keys(b.properties ?? {})]);
+    for (const key of keys) {
+      const left = a.properties?.[key];
+      const right = b.properties?.[key];
+      properties[key] = left && right ? mergeJsonSchemas(left, right) : (left ?? right)!;
+    }
+    merged.properties = properties;
+
+    merged.required = a.properties && b.properties
+      ? (a.required ?? []).filter((key) => (b.required ?? []).includes(key))
+      : (a.properties ? a.required : b.required) ?? [];
+  }
+
+  if (a.items || b.items) {
+    merged.items = a.items && b.items ? mergeJsonSchemas(a.items, b.items) : a.items ?? b.items;
+  }
+
+  return merged;
+}
+
+export function inferJsonSchema(value: unknown): JsonSchema {
+  const type = jsonType(value);
+
+  if (Array.isArray(value)) {
+    const schema: JsonSchema = { type };
+    for (const entry of value) {
+      const itemSchema = inferJsonSchema(entry);
+      schema.items = schema.items ? mergeJsonSchemas(schema.items, itemSchema) : itemSchema;
+    }
+    return schema;
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      properties[key] = inferJsonSchema(entry);
+    }
+    return { type, properties, required: Object.keys(value) };
+  }
+
+  return { type };
+}
+
+export function describeShape(value: unknown, depth = 0): unknown {
+  if (depth >= MAX_SHAPE_DEPTH) {
+    return '...';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? [describeShape(value[0], depth + 1)] : [];
+  }
+  if (isPlainObject(value)) {
+    const shape: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      shape[key] = describeShape(entry, depth + 1);
+    }
+    return shape;
+  }
+  return jsonType(value);
+}
+
+export function redactVariables(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactVariables(entry));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, CREDENTIAL_KEY.test(key) ? REDACTED : redactVariables(entry)])
+    );
+  }
+  return value;
+}
+
+export function redactQuery(query: string): string {
+  return query.replace(/\b(\w+)(\s*:\s*)"(?:[^"\\]|\\.)*"/g, (match, name: string, separator: string) =>
+    CREDENTIAL_KEY.test(name) ? `${name}${separator}"${REDACTED}"` : match
+  );
+}
+
+export function hasRedactedValues(operation: DiscoveredOperation): boolean {
+  const marker = JSON.stringify(REDACTED);
+  return (
+    (operation.query ?? '').includes(marker)
+    || JSON.stringify(operation.sampleVariables[0] ?? {}).includes(marker)
+  );
+}
+
+function operationKey(operation: GraphqlOperation): string {
+  if (operation.operationName) {
+    return operation.operationName;
+  }
+  return operation.rootFields.length > 0
+    ? `anonymous:${operation.rootFields.join(',')}`
+    : 'anonymous';
+}
+
+function restKey(method: string, url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${method} ${parsed.host}${parsed.pathname}`;
+  } catch {
+    return `${method} ${url}`;
+  }
+}
+
+function stripQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index >= 0 ? url.slice(0, index) : url;
+}
+
+export class DiscoveryRecorder {
+  private context: BrowserContext;
+  private logger: Logger;
+  private operations = new Map<string, DiscoveredOperation>();
+  private responsesSeen = 0;
+  private startedAt = new Date();
+  private listener = (response: Response) => {
+    void this.handleResponse(response);
+  };
+
+  constructor(context: BrowserContext, logger: Logger) {
+    this.context = context;
+    this.logger = logger;
+  }
+
+  start(): void {
+    this.startedAt = new Date();
+    this.context.on('response', this.listener);
+  }
+
+  stop(): void {
+    this.context.off('response', this.listener);
+  }
+
+  catalogue(appUrl: string): DiscoveryCatalogue {
+    const finishedAt = new Date();
+    const operations = Array.from(this.operations.values()).sort(
+      (a, b) => b.count - a.count || a.key.localeCompare(b.key)
+    );
+
+    return {
+      meta: {
+        tool: 'cfcnx-pushpress-cli',
+        appUrl,
+        startedAt: this.startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+        responsesSeen: this.responsesSeen,
+        operationCount: operations.length,
+      },
+      operations,
+    };
+  }
+
+  private async handleResponse(response: Response): Promise<void> {
+    const contentType = response.headers()['content-type'] ?? '';
+    if (!contentType.includes('json')) {
+      return;
+    }
+
+    const request = response.request();
+    const url = response.url();
+    const method = request.method().toUpperCase();
+    const status = response.status();
+    const body = await response.json().catch(() => undefined);
+    if (body === undefined) {
+      return;
+    }
+
+    this.responsesSeen += 1;
+    const graphqlOperations = parseGraphqlOperations(url, request.postData());
+
+    if (graphqlOperations.length === 0) {
+      this.record(restKey(method, url), 'json', method, url, status, body);
+      return;
+    }
+
+    graphqlOperations.forEach((operation, index) => {
+      const payload = graphqlOperations.length > 1 && Array.isArray(body) ? body[index] : body;
+      this.record(operationKey(operation), 'graphql', method, url, status, payload, operation);
+    });
+  }
+
+  private record(
+    key: string,
+    kind: DiscoveredOperation['kind'],
+    method: string,
+    url: string,
+    status: number,
+    payload: unknown,
+    operation?: GraphqlOperation
+  ): void {
+    const now = new Date().toISOString();
+    const schema = inferJsonSchema(payload);
+    const existing = this.operations.get(key);
+    const cleanUrl = stripQuery(url);
+    const query = operation?.query ? redactQuery(operation.query) : undefined;
+    const variables = operation && Object.keys(operation.variables).length > 0
+      ? (redactVariables(operation.variables) as Record<string, unknown>)
+      : undefined;
+
+    if (!existing) {
+      this.operations.set(key, {
+        key,
+        kind,
+        operationName: operation?.operationName,
+        rootFields: operation?.rootFields ?? [],
+        method,
+        urls: [cleanUrl],
+        statuses: [status],
+        count: 1,
+        firstSeen: now,
+        lastSeen: now,
+        query,
+        sampleVariables: variables ? [variables] : [],
+        responseShape: describeShape(payload),
+        responseSchema: schema,
+      });
+      this.logger.info({ operation: key, kind, status }, 'Discovered operation');
+      return;
+    }
+
+    existing.count += 1;
+    existing.lastSeen = now;
+    existing.responseSchema = mergeJsonSchemas(existing.responseSchema, schema);
+    if (!existing.statuses.includes(status)) {
+      existing.statuses.push(status);
+    }
+    if (!existing.urls.includes(cleanUrl) && existing.urls.length < MAX_URLS) {
+      existing.urls.push(cleanUrl);
+    }
+    if (!existing.query && query) {
+      existing.query = query;
+    }
+    if (variables) {
+      const serialized = JSON.stringify(variables);
+      const seen = existing.sampleVariables.some((sample) => JSON.stringify(sample) === serialized);
+      if (!seen && existing.sampleVariables.length < MAX_SAMPLE_VARIABLES) {
+        existing.sampleVariables.push(variables);
+      }
+    }
+    this.logger.debug({ operation: key, count: existing.count }, 'Recorded operation');
+  }
+}
+
+export function writeDiscoveryCatalogue(outputPath: string, catalogue: DiscoveryCatalogue): string {
+  const resolved = path.resolve(outputPath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.writeFileSync(resolved, JSON.stringify(catalogue, null, 2), 'utf-8');
+  return resolved;
+}
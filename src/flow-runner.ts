@@ -1,7 +1,10 @@
-import { FlowContext, FlowDefinition } from './types';
+import { FlowContext, FlowDefinition, FlowStep, RetryOptions } from './types';
+import { withRetry } from './retry';
+import { isLoginScreenVisible } from './auth';
 
 export interface RunOptions {
   dryRun?: boolean;
+  reauthFlow?: FlowDefinition;
 }
 
 export interface RunResult {
@@ -9,6 +12,23 @@ export interface RunResult {
   stepsCompleted: number;
 }
 
+export class FlowStepError extends Error {
+  readonly flowName: string;
+  readonly stepName: string;
+  readonly stepsCompleted: number;
+  readonly cause: unknown;
+
+  constructor(flowName: string, stepName: string, stepsCompleted: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Step "${stepName}" of flow "${flowName}" failed: ${reason}`);
+    this.name = 'FlowStepError';
+    this.flowName = flowName;
+    this.stepName = stepName;
+    this.stepsCompleted = stepsCompleted;
+    this.cause = cause;
+  }
+}
+
 function mergeCapture(
   target: Record<string, unknown>,
   captured: Record<string, unknown>
@@ -28,18 +48,72 @@ function mergeCapture(
   }
 }
 
+function cloneFlowData(flowData: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  return flowData ? structuredClone(flowData) : undefined;
+}
+
+async function runStep(
+  flow: FlowDefinition,
+  step: FlowStep,
+  ctx: FlowContext,
+  retry: RetryOptions | undefined
+): Promise<void> {
+  const flowDataBefore = cloneFlowData(ctx.flowData);
+  await withRetry(
+    async (attempt) => {
+      if (attempt > 1) {
+        ctx.logger.info({ flow: flow.name, step: step.name, attempt }, 'Retrying step');
+        ctx.flowData = cloneFlowData(flowDataBefore);
+      }
+      ctx.capture?.setRules(step.captureRules ?? []);
+      await step.action(ctx);
+    },
+    {
+      ...retry,
+      onRetry: ({ attempt, delayMs, error }) => {
+        ctx.logger.warn(
+          { flow: flow.name, step: step.name, attempt, delayMs, err: error },
+          'Step failed; backing off before retry'
+        );
+        ctx.capture?.setRules([]);
+        ctx.capture?.discard();
+      },
+    }
+  );
+}
+
+async function isOnLoginScreen(ctx: FlowContext): Promise<boolean> {
+  return ctx.page ? isLoginScreenVisible(ctx.page, ctx.config, ctx.logger) : false;
+}
+
+async function reauthenticate(
+  reauthFlow: FlowDefinition,
+  ctx: FlowContext
+): Promise<void> {
+  ctx.capture?.setRules([]);
+  ctx.capture?.discard();
+  await runFlow(reauthFlow, ctx);
+}
+
 export async function runFlow(
   flow: FlowDefinition,
   ctx: FlowContext,
   options: RunOptions = {}
 ): Promise<RunResult> {
-  const { dryRun = false } = options;
+  const { dryRun = false, reauthFlow } = options;
   const data: Record<string, unknown> = {};
   let stepsCompleted = 0;
+  let reauthAvailable = Boolean(reauthFlow) && reauthFlow?.name !== flow.name;
 
   ctx.logger.info({ flow: flow.name, dryRun }, 'Starting flow');
 
   for (const step of flow.steps) {
+    if (!dryRun && step.when && !step.when(ctx)) {
+      ctx.logger.info({ flow: flow.name, step: step.name }, 'Skipping step');
+      stepsCompleted += 1;
+      continue;
+    }
+
     if (dryRun) {
       ctx.logger.info({ flow: flow.name, step: step.name }, 'Dry run step');
       if (step.description) {
@@ -57,8 +131,36 @@ export async function runFlow(
     }
 
     ctx.logger.info({ flow: flow.name, step: step.name }, 'Running step');
-    ctx.capture?.setRules(step.captureRules ?? []);
-    await step.action(ctx);
+    const retry: RetryOptions = {
+      ...step.retry,
+      retryOn: async (error, attempt) => {
+        if (reauthAvailable && (await isOnLoginScreen(ctx))) {
+          return false;
+        }
+        return step.retry?.retryOn ? step.retry.retryOn(error, attempt) : true;
+      },
+    };
+
+    const flowDataBefore = cloneFlowData(ctx.flowData);
+    try {
+      await runStep(flow, step, ctx, retry);
+    } catch (error) {
+      if (!reauthFlow || !reauthAvailable || !(await isOnLoginScreen(ctx))) {
+        throw new FlowStepError(flow.name, step.name, stepsCompleted, error);
+      }
+
+      reauthAvailable = false;
+      ctx.logger.warn(
+        { flow: flow.name, step: step.name, err: error },
+        'Login screen detected after step failure; re-authenticating'
+      );
+      await reauthenticate(reauthFlow, ctx);
+      ctx.flowData = cloneFlowData(flowDataBefore);
+      ctx.logger.info({ flow: flow.name, step: step.name }, 'Retrying step after re-authentication');
+      await runStep(flow, step, ctx, undefined).catch((retryError) => {
+        throw new FlowStepError(flow.name, step.name, stepsCompleted, retryError);
+      });
+    }
     stepsCompleted += 1;
 
     if (ctx.capture) {
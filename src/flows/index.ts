@@ -3,12 +3,16 @@ import { loginFlow } from './login.flow';
 import { workoutHistoryFlow } from './workout-history.flow';
 import { workoutWeekFlow } from './workout-week.flow';
 import { scheduleBookFlow } from './schedule-book.flow';
+import { scheduleCancelFlow } from './schedule-cancel.flow';
+import { reservationsFlow } from './reservations.flow';
 
 export const flows: FlowDefinition[] = [
   loginFlow,
   workoutHistoryFlow,
   workoutWeekFlow,
   scheduleBookFlow,
+  scheduleCancelFlow,
+  reservationsFlow,
 ];
 
 export function getFlow(name: string): FlowDefinition | undefined {
@@ -1,88 +1,12 @@
 import { FlowContext, FlowDefinition } from '../types';
 import { saveSessionState, waitForLoginSuccess } from '../auth';
+import { pauseTracing, resumeTracing } from '../browser';
+import { boxCenter, FlutterPage, SemanticsNode } from '../actions';
+import { labelPattern, labelPatterns, tryClickLabel } from '../labels';
 
 const EMAIL_SELECTOR = '[aria-label="Email"], input[type="email"]';
 const PASSWORD_SELECTOR = '[aria-label="Password"], input[type="password"]';
 const SUBMIT_SELECTOR = '[aria-label="Sign In"], [aria-label="Log In"], button[type="submit"]';
-const GET_STARTED_TEXT = /let['’]s get started/i;
-const LOGIN_TEXT = /log in/i;
-
-async function enableFlutterSemantics(ctx: FlowContext): Promise<void> {
-  const { page, logger, config } = ctx;
-  if (!page) {
-    throw new Error('FlowContext.page is required to enable semantics.');
-  }
-
-  await page
-    .locator('flt-glass-pane')
-    .waitFor({ state: 'attached', timeout: config.globalTimeout })
-    .catch(() => undefined);
-
-  const clicked = await page.evaluate(() => {
-    const glass = document.querySelector('flt-glass-pane');
-    const root = glass && 'shadowRoot' in glass && (glass as HTMLElement).shadowRoot
-      ? (glass as HTMLElement).shadowRoot
-      : glass;
-    if (!root) {
-      return false;
-    }
-
-    const placeholder = root.querySelector('flt-semantics-placeholder');
-    if (!placeholder) {
-      return false;
-    }
-
-    (placeholder as HTMLElement).click();
-    return true;
-  });
-
-  logger.debug({ clicked }, 'Flutter semantics placeholder click attempted');
-  await page.waitForTimeout(250);
-}
-
-async function waitForGetStartedText(page: NonNullable<FlowContext['page']>, timeoutMs: number): Promise<void> {
-  const start = Date.now();
-
-  while (Date.now() - start < timeoutMs) {
-    const directCount = await page.getByText(GET_STARTED_TEXT).count().catch(() => 0);
-    if (directCount > 0) {
-      return;
-    }
-
-    const semanticCount = await page
-      .locator('flt-semantics-host')
-      .getByText(GET_STARTED_TEXT)
-      .count()
-      .catch(() => 0);
-    if (semanticCount > 0) {
-      return;
-    }
-
-    await page.waitForTimeout(250);
-  }
-}
-
-async function waitForLoginText(page: NonNullable<FlowContext['page']>, timeoutMs: number): Promise<void> {
-  const start = Date.now();
-
-  while (Date.now() - start < timeoutMs) {
-    const directCount = await page.getByText(LOGIN_TEXT).count().catch(() => 0);
-    if (directCount > 0) {
-      return;
-    }
-
-    const semanticCount = await page
-      .locator('flt-semantics-host')
-      .getByText(LOGIN_TEXT)
-      .count()
-      .catch(() => 0);
-    if (semanticCount > 0) {
-      return;
-    }
-
-    await page.waitForTimeout(250);
-  }
-}
 
 async function waitForFieldLabel(
   page: NonNullable<FlowContext['page']>,
@@ -115,67 +39,30 @@ async function waitForFieldLabel(
   }
 }
 
-async function waitForStablePosition(
-  page: NonNullable<FlowContext['page']>,
-  label: RegExp,
-  timeoutMs: number
-): Promise<void> {
+async function waitForStablePosition(flutter: FlutterPage, label: RegExp, timeoutMs: number): Promise<void> {
   const start = Date.now();
   let lastY: number | null = null;
   let stableCount = 0;
 
   while (Date.now() - start < timeoutMs) {
-    const rect = await page.evaluate((labelText) => {
-      const host = document.querySelector('flt-semantics-host');
-      const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-        ? (host as HTMLElement).shadowRoot
-        : host;
-      if (!root) {
-        return null;
-      }
-
-      const wanted = labelText.replace(/\s+/g, ' ').trim().toLowerCase();
-      const candidates = root.querySelectorAll('[aria-label]');
-      let match: Element | null = null;
-
-      for (let i = 0; i < candidates.length; i += 1) {
-        const el = candidates[i] as HTMLElement;
-        const labelValue = el.getAttribute('aria-label') ?? '';
-        const normalized = labelValue.replace(/\s+/g, ' ').trim().toLowerCase();
-        if (normalized === wanted || normalized.includes(wanted)) {
-          match = el;
-          break;
-        }
-      }
+    const node = await flutter.find({ label, minWidth: 1, minHeight: 1 }).catch(() => null);
 
-      if (!match) {
-        return null;
-      }
-
-      const box = (match as HTMLElement).getBoundingClientRect();
-      if (!box || box.width === 0 || box.height === 0) {
-        return null;
-      }
-
-      return { y: box.top };
-    }, label.source);
-
-    if (!rect) {
-      await page.waitForTimeout(150);
+    if (!node) {
+      await flutter.page.waitForTimeout(150);
       continue;
     }
 
-    if (lastY !== null && Math.abs(rect.y - lastY) < 1) {
+    if (lastY !== null && Math.abs(node.y - lastY) < 1) {
       stableCount += 1;
       if (stableCount >= 5) {
         return;
       }
     } else {
       stableCount = 0;
-      lastY = rect.y;
+      lastY = node.y;
     }
 
-    await page.waitForTimeout(150);
+    await flutter.page.waitForTimeout(150);
   }
 }
 
@@ -202,41 +89,17 @@ async function typeIntoFocusedField(
   await page.keyboard.insertText(value);
 }
 
-async function clickLoginButton(
-  page: NonNullable<FlowContext['page']>,
-  config: FlowContext['config'],
-  logger: FlowContext['logger']
-): Promise<void> {
+async function clickLoginButton(ctx: FlowContext, flutter: FlutterPage): Promise<void> {
+  const page = flutter.page;
+  const { config, logger } = ctx;
   const waitForTextTimeout = Math.min(10000, config.globalTimeout);
 
   logger.debug({ timeout: waitForTextTimeout }, 'Waiting for login button text');
-  await waitForLoginText(page, waitForTextTimeout).catch(() => undefined);
+  await flutter.waitForLabel(labelPattern(config, 'logIn'), waitForTextTimeout);
   await page.waitForTimeout(150);
 
-  const attempts = [
-    { name: 'role-button', locator: page.getByRole('button', { name: LOGIN_TEXT }) },
-    { name: 'role-link', locator: page.getByRole('link', { name: LOGIN_TEXT }) },
-    { name: 'text', locator: page.getByText(LOGIN_TEXT) },
-    { name: 'semantics-text', locator: page.locator('flt-semantics-host').getByText(LOGIN_TEXT) },
-  ];
-
-  const perAttemptTimeout = Math.min(2000, config.globalTimeout);
-
-  for (const attempt of attempts) {
-    try {
-      logger.debug({ selector: attempt.name }, 'Attempting to click login button');
-      const handle = await attempt.locator.first().elementHandle({ timeout: perAttemptTimeout }).catch(() => null);
-      if (handle) {
-        const box = await handle.boundingBox();
-        if (box) {
-          await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
-          logger.debug({ selector: attempt.name }, 'Clicked login button');
-          return;
-        }
-      }
-    } catch {
-      // continue
-    }
+  if (await tryClickLabel(flutter, ctx, 'logIn', 'login button')) {
+    return;
   }
 
   const viewport = page.viewportSize() ?? { width: 1280, height: 720 };
@@ -249,24 +112,15 @@ async function clickLoginButton(
   await page.mouse.click(fallbackX, fallbackY);
 }
 
-interface SemanticsFieldBox {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  label: string;
-  role: string;
-}
-
 interface SemanticsCluster {
   y: number;
-  fields: SemanticsFieldBox[];
+  fields: SemanticsNode[];
 }
 
 function clusterSemanticsFields(
-  fields: SemanticsFieldBox[],
+  fields: SemanticsNode[],
   threshold = 40
-): SemanticsFieldBox[] {
+): SemanticsNode[] {
   const sorted = [...fields].sort((a, b) => a.y - b.y);
   const clusters: SemanticsCluster[] = [];
 
@@ -288,108 +142,30 @@ function clusterSemanticsFields(
   });
 }
 
-async function findSemanticsTextFields(
-  page: NonNullable<FlowContext['page']>
-): Promise<SemanticsFieldBox[]> {
-  return page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [];
-    }
-
-    const elements = root.querySelectorAll('[role], [aria-label]');
-    const results: SemanticsFieldBox[] = [];
-
-    for (let i = 0; i < elements.length; i += 1) {
-      const el = elements[i] as HTMLElement;
-      const role = (el.getAttribute('role') ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
-      const label = el.getAttribute('aria-label') ?? '';
-      const normalizedLabel = label.replace(/\s+/g, ' ').trim().toLowerCase();
-      const isLikelyField =
-        role.includes('textbox') ||
-        role.includes('text field') ||
-        normalizedLabel.includes('email') ||
-        normalizedLabel.includes('username') ||
-        normalizedLabel.includes('password');
-
-      if (!isLikelyField) {
-        continue;
-      }
-
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 120 || rect.height < 24) {
-        continue;
-      }
-
-      results.push({
-        x: rect.left,
-        y: rect.top,
-        width: rect.width,
-        height: rect.height,
-        label,
-        role,
-      });
-    }
-
-    return results;
-  });
+async function findSemanticsTextFields(ctx: FlowContext, flutter: FlutterPage): Promise<SemanticsNode[]> {
+  const size = { minWidth: 120, minHeight: 24 };
+  const byRole = await flutter.findAll({ ...size, role: /textbox|text field/ });
+  const byLabel = await flutter.findAll({ ...size, label: labelPattern(ctx.config, ['emailField', 'passwordField']) });
+  return [...byRole, ...byLabel.filter((node) => !byRole.some((field) => field.x === node.x && field.y === node.y))];
 }
 
 async function tryTypeIntoField(
-  page: NonNullable<FlowContext['page']>,
+  flutter: FlutterPage,
   logger: FlowContext['logger'],
   label: RegExp,
   value: string,
-  options: { timeoutMs: number; preferInputSelector?: string; ariaLabels?: string[] }
+  options: { timeoutMs: number; preferInputSelector?: string; ariaLabels?: RegExp[] }
 ): Promise<boolean> {
+  const page = flutter.page;
   const { timeoutMs, preferInputSelector, ariaLabels } = options;
 
   if (ariaLabels && ariaLabels.length > 0) {
     for (const ariaLabel of ariaLabels) {
-      logger.debug({ selector: `aria-eval-${ariaLabel}`, field: label.source }, 'Attempting to fill field');
-      const rect = await page.evaluate((labelText) => {
-        const host = document.querySelector('flt-semantics-host');
-        const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-          ? (host as HTMLElement).shadowRoot
-          : host;
-        if (!root) {
-          return null;
-        }
-
-        const wanted = labelText.replace(/\s+/g, ' ').trim().toLowerCase();
-        const candidates = root.querySelectorAll('[aria-label]');
-        let match: Element | null = null;
+      logger.debug({ selector: `aria-eval-${ariaLabel.source}`, field: label.source }, 'Attempting to fill field');
+      const node = await flutter.find({ label: ariaLabel, minWidth: 1, minHeight: 1 }).catch(() => null);
 
-        for (let i = 0; i < candidates.length; i += 1) {
-          const el = candidates[i] as HTMLElement;
-          const labelValue = el.getAttribute('aria-label') ?? '';
-          const normalized = labelValue.replace(/\s+/g, ' ').trim().toLowerCase();
-          if (normalized === wanted || normalized.includes(wanted)) {
-            match = el;
-            break;
-          }
-        }
-
-        if (!match) {
-          return null;
-        }
-
-        const box = (match as HTMLElement).getBoundingClientRect();
-        if (!box || box.width === 0 || box.height === 0) {
-          return null;
-        }
-
-        return {
-          x: box.left + box.width / 2,
-          y: box.top + box.height * 0.7,
-        };
-      }, ariaLabel);
-
-      if (rect) {
-        await page.mouse.click(rect.x, rect.y);
+      if (node) {
+        await page.mouse.click(node.x + node.width / 2, node.y + node.height * 0.7);
         const modifier = process.platform === 'darwin' ? 'Meta' : 'Control';
         await page.keyboard.press(`${modifier}+A`).catch(() => undefined);
         await page.keyboard.press('Backspace').catch(() => undefined);
@@ -452,13 +228,9 @@ async function tryTypeIntoField(
 }
 
 async function clickGetStarted(ctx: FlowContext): Promise<void> {
-  const { page, config, logger } = ctx;
-
-  if (!page) {
-    throw new Error('FlowContext.page is required to open login.');
-  }
-
-  const perAttemptTimeout = Math.min(2000, config.globalTimeout);
+  const flutter = FlutterPage.fromContext(ctx);
+  const { page } = flutter;
+  const { config, logger } = ctx;
   const waitForTextTimeout = Math.min(15000, config.globalTimeout);
 
   await page.locator('flt-semantics-host').waitFor({
@@ -467,38 +239,10 @@ async function clickGetStarted(ctx: FlowContext): Promise<void> {
   });
 
   logger.debug({ timeout: waitForTextTimeout }, 'Waiting for get started text');
-  await waitForGetStartedText(page, waitForTextTimeout).catch(() => undefined);
-
-  const attempts = [
-    { name: 'role-button', locator: page.getByRole('button', { name: GET_STARTED_TEXT }) },
-    { name: 'role-link', locator: page.getByRole('link', { name: GET_STARTED_TEXT }) },
-    { name: 'text', locator: page.getByText(GET_STARTED_TEXT) },
-    { name: 'semantics-text', locator: page.locator('flt-semantics-host').getByText(GET_STARTED_TEXT) },
-  ];
+  await flutter.waitForLabel(labelPattern(config, 'getStarted'), waitForTextTimeout);
 
-  let lastError: unknown;
-
-  for (const attempt of attempts) {
-    try {
-      logger.debug({ selector: attempt.name }, 'Attempting to click get started');
-      const handle = await attempt.locator.first().elementHandle({ timeout: perAttemptTimeout }).catch(() => null);
-
-      if (handle) {
-        const box = await handle.boundingBox();
-        if (box) {
-          const x = box.x + box.width / 2;
-          const y = box.y + box.height / 2;
-          logger.debug(
-            { selector: attempt.name, x: Math.round(x), y: Math.round(y) },
-            'Clicking get started by bounding box'
-          );
-          await page.mouse.click(x, y);
-          return;
-        }
-      }
-    } catch (error) {
-      lastError = error;
-    }
+  if (await tryClickLabel(flutter, ctx, 'getStarted', 'get started')) {
+    return;
   }
 
   const viewport = page.viewportSize() ?? { width: 1280, height: 720 };
@@ -510,7 +254,6 @@ async function clickGetStarted(ctx: FlowContext): Promise<void> {
     'Falling back to coordinate click for get started'
   );
   await page.mouse.click(fallbackX, fallbackY);
-  return;
 }
 
 export const loginFlow: FlowDefinition = {
@@ -529,38 +272,40 @@ export const loginFlow: FlowDefinition = {
       name: 'enable-semantics',
       description: 'Ensure Flutter semantics tree is enabled (if placeholder exists).',
       action: async (ctx) => {
-        await enableFlutterSemantics(ctx);
+        await FlutterPage.fromContext(ctx).enableSemantics();
       },
     },
     {
       name: 'open-login',
       description: 'Click “Let’s get started” to open the login window.',
       action: async (ctx) => {
-        await clickGetStarted({ page: ctx.page!, config: ctx.config, logger: ctx.logger });
+        await clickGetStarted(ctx);
       },
     },
     {
       name: 'fill-credentials',
       description: 'Fill in the email and password fields.',
       action: async (ctx) => {
-        const page = ctx.page!;
+        await pauseTracing(ctx.page!);
+        const flutter = FlutterPage.fromContext(ctx);
+        const page = flutter.page;
         const timeoutMs = Math.min(8000, ctx.config.globalTimeout);
+        const password = ctx.config.secrets.get('PUSHPRESS_PASSWORD');
 
-        await waitForFieldLabel(page, /username|email/i, timeoutMs);
-        await waitForStablePosition(page, /username\/email|email|username/i, timeoutMs);
+        const emailPattern = labelPattern(ctx.config, 'emailField');
+        await waitForFieldLabel(page, emailPattern, timeoutMs);
+        await waitForStablePosition(flutter, emailPattern, timeoutMs);
 
-        const semanticFields = await findSemanticsTextFields(page);
+        const semanticFields = await findSemanticsTextFields(ctx, flutter);
         if (semanticFields.length >= 2) {
           const ordered = clusterSemanticsFields(semanticFields);
           ctx.logger.debug(
             {
               count: ordered.length,
-              fields: ordered.slice(0, 2).map((field) => ({
-                label: field.label,
-                role: field.role,
-                x: Math.round(field.x + field.width / 2),
-                y: Math.round(field.y + field.height / 2),
-              })),
+              fields: ordered.slice(0, 2).map((field) => {
+                const center = boxCenter(field);
+                return { label: field.label, role: field.role, x: Math.round(center.x), y: Math.round(center.y) };
+              }),
             },
             'Typing into semantics fields by position'
           );
@@ -568,29 +313,23 @@ export const loginFlow: FlowDefinition = {
           const emailField = ordered[0];
           const passwordField = ordered[1];
 
-          await page.mouse.click(
-            emailField.x + emailField.width / 2,
-            emailField.y + emailField.height / 2
-          );
+          await flutter.clickCenter(emailField);
           await page.waitForTimeout(150);
           await typeIntoFocusedField(page, ctx.config.credentials.email, timeoutMs);
 
-          await page.mouse.click(
-            passwordField.x + passwordField.width / 2,
-            passwordField.y + passwordField.height / 2
-          );
+          await flutter.clickCenter(passwordField);
           await page.waitForTimeout(150);
-          await typeIntoFocusedField(page, ctx.config.credentials.password, timeoutMs);
+          await typeIntoFocusedField(page, password, timeoutMs);
           return;
         }
 
-        const emailLabels = [/username\/email/i, /email/i, /username/i];
+        const emailLabels = labelPatterns(ctx.config, 'emailField');
         let emailFilled = false;
         for (const label of emailLabels) {
-          emailFilled = await tryTypeIntoField(page, ctx.logger, label, ctx.config.credentials.email, {
+          emailFilled = await tryTypeIntoField(flutter, ctx.logger, label, ctx.config.credentials.email, {
             timeoutMs: Math.min(1500, timeoutMs),
             preferInputSelector: EMAIL_SELECTOR,
-            ariaLabels: ['Username/email', 'Email', 'Username'],
+            ariaLabels: emailLabels,
           });
           if (emailFilled) {
             break;
@@ -601,13 +340,13 @@ export const loginFlow: FlowDefinition = {
           throw new Error('Failed to fill email/username field.');
         }
 
-        const passwordLabels = [/password/i];
+        const passwordLabels = labelPatterns(ctx.config, 'passwordField');
         let passwordFilled = false;
         for (const label of passwordLabels) {
-          passwordFilled = await tryTypeIntoField(page, ctx.logger, label, ctx.config.credentials.password, {
+          passwordFilled = await tryTypeIntoField(flutter, ctx.logger, label, password, {
             timeoutMs: Math.min(1500, timeoutMs),
             preferInputSelector: PASSWORD_SELECTOR,
-            ariaLabels: ['Password'],
+            ariaLabels: passwordLabels,
           });
           if (passwordFilled) {
             break;
@@ -623,9 +362,9 @@ export const loginFlow: FlowDefinition = {
       name: 'submit-login',
       description: 'Submit the login form (selector may need adjustment).',
       action: async (ctx) => {
-        const page = ctx.page!;
-        await page.waitForTimeout(300);
-        await clickLoginButton(page, ctx.config, ctx.logger);
+        const flutter = FlutterPage.fromContext(ctx);
+        await flutter.page.waitForTimeout(300);
+        await clickLoginButton(ctx, flutter);
       },
     },
     {
@@ -633,6 +372,7 @@ export const loginFlow: FlowDefinition = {
       description: 'Wait until the app navigates away from the login route.',
       action: async (ctx) => {
         await waitForLoginSuccess(ctx.page!, ctx.config, ctx.logger);
+        await resumeTracing(ctx.page!);
       },
     },
     {
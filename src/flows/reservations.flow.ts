@@ -0,0 +1,229 @@
+import { AppConfig, FlowContext, FlowDefinition } from '../types';
+import { FlutterPage } from '../actions';
+import { clickLabel, labelPattern, tryClickLabel } from '../labels';
+
+const NAVIGATION_RETRY = { maxAttempts: 3, baseDelayMs: 1000 };
+const RESERVATION_FIELD_PATTERN = /reservation|booking|waitlist|enrollment|attendance|registration/i;
+const TIME_PATTERN = /\b(\d{1,2}:\d{2}\s?(?:AM|PM))(?:\s*[-–]\s*(\d{1,2}:\d{2}\s?(?:AM|PM)))?/i;
+const DATE_PATTERN =
+  /\b(?:(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*,?\s+)?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(?:,?\s+\d{4})?|\b(?:today|tomorrow)\b|\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/i;
+const COACH_PATTERN = /(?:coach|instructor|with)[:\s]+([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)?)/;
+const WAITLIST_POSITION_PATTERN = /(?:#\s?(\d+)|position\s*:?\s*(\d+)|(\d+)(?:st|nd|rd|th)\s+(?:on|in))/i;
+const MAX_SCROLLS = 8;
+
+type ReservationStatus = 'reserved' | 'waitlisted';
+
+interface ReservationRecord {
+  className: string;
+  date?: string;
+  time: string;
+  endTime?: string;
+  coach?: string;
+  status: ReservationStatus;
+  waitlistPosition?: number;
+  label: string;
+}
+
+interface CardText {
+  text: string;
+  y: number;
+}
+
+async function collectCardTexts(ctx: FlowContext): Promise<CardText[]> {
+  const nodes = await FlutterPage.fromContext(ctx).findAll({ minWidth: 8, minHeight: 8, inViewport: true });
+  const cards: CardText[] = [];
+
+  for (const anchor of nodes) {
+    if (!TIME_PATTERN.test(anchor.label)) {
+      continue;
+    }
+
+    if (anchor.label.includes('\n')) {
+      cards.push({ text: anchor.label, y: anchor.y });
+      continue;
+    }
+
+    const bandTop = anchor.y - 48;
+    const bandBottom = anchor.y + anchor.height + 72;
+    const parts = nodes
+      .filter((node) => node.y >= bandTop && node.y + node.height <= bandBottom)
+      .filter((node) => node === anchor || !TIME_PATTERN.test(node.label))
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .map((node) => node.label);
+    cards.push({ text: parts.join('\n'), y: anchor.y });
+  }
+
+  return cards;
+}
+
+function parseStatus(config: AppConfig, text: string): ReservationStatus | null {
+  if (labelPattern(config, ['waitlisted', 'leaveWaitlist']).test(text)) {
+    return 'waitlisted';
+  }
+  if (labelPattern(config, ['reserved', 'cancelBooking']).test(text)) {
+    return 'reserved';
+  }
+  return null;
+}
+
+function parseReservation(config: AppConfig, text: string): ReservationRecord | null {
+  const time = text.match(TIME_PATTERN);
+  const status = parseStatus(config, text);
+  if (!time || !status) {
+    return null;
+  }
+
+  const lines = text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const date = text.match(DATE_PATTERN)?.[0];
+  const coach = text.match(COACH_PATTERN)?.[1];
+  const className = lines.find(
+    (line) =>
+      !TIME_PATTERN.test(line)
+      && !DATE_PATTERN.test(line)
+      && !COACH_PATTERN.test(line)
+      && !parseStatus(config, line)
+      && /[a-z]/i.test(line)
+  );
+
+  const record: ReservationRecord = {
+    className: className ?? 'Unknown',
+    time: time[1],
+    status,
+    label: lines.join(' | '),
+  };
+  if (time[2]) record.endTime = time[2];
+  if (date) record.date = date;
+  if (coach) record.coach = coach;
+
+  if (status === 'waitlisted') {
+    const position = text.match(WAITLIST_POSITION_PATTERN);
+    const value = position ? Number(position[1] ?? position[2] ?? position[3]) : NaN;
+    if (Number.isFinite(value)) {
+      record.waitlistPosition = value;
+    }
+  }
+
+  return record;
+}
+
+async function openReservationsView(ctx: FlowContext): Promise<boolean> {
+  if (await tryClickLabel(FlutterPage.fromContext(ctx), ctx, 'reservationsTab', 'Reservations')) {
+    await ctx.page!.waitForTimeout(1200);
+    return true;
+  }
+
+  ctx.logger.debug('Reservations view not found under Schedule; trying Profile');
+  if (!(await tryClickLabel(FlutterPage.fromContext(ctx), ctx, 'profile', 'Profile'))) {
+    return false;
+  }
+  await ctx.page!.waitForTimeout(1200);
+
+  if (await tryClickLabel(FlutterPage.fromContext(ctx), ctx, 'reservationsTab', 'Reservations')) {
+    await ctx.page!.waitForTimeout(1200);
+    return true;
+  }
+
+  return false;
+}
+
+async function collectReservations(ctx: FlowContext): Promise<ReservationRecord[]> {
+  const page = ctx.page!;
+  const results: ReservationRecord[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i <= MAX_SCROLLS; i += 1) {
+    const cards = await collectCardTexts(ctx);
+    let added = 0;
+    for (const card of cards) {
+      const record = parseReservation(ctx.config, card.text);
+      if (!record) {
+        continue;
+      }
+      const key = `${record.className}|${record.date ?? ''}|${record.time}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      results.push(record);
+      added += 1;
+    }
+
+    ctx.logger.debug({ scroll: i, cards: cards.length, added }, 'Reservation cards scanned');
+    if (i > 0 && added === 0) {
+      break;
+    }
+
+    await page.mouse.wheel(0, 500);
+    await page.waitForTimeout(500);
+  }
+
+  return results;
+}
+
+export const reservationsFlow: FlowDefinition = {
+  name: 'reservations',
+  description: 'List upcoming reservations and waitlist positions',
+  steps: [
+    {
+      name: 'navigate-home',
+      description: 'Open the members app home screen.',
+      action: async (ctx) => {
+        await ctx.page!.goto(ctx.config.baseUrl, { waitUntil: 'domcontentloaded' });
+        await ctx.page!.waitForTimeout(1000);
+      },
+    },
+    {
+      name: 'enable-semantics',
+      description: 'Ensure Flutter semantics tree is enabled (if placeholder exists).',
+      action: async (ctx) => {
+        await FlutterPage.fromContext(ctx).enableSemantics();
+      },
+    },
+    {
+      name: 'open-schedule',
+      description: 'Open the Schedule tab in the bottom navigation.',
+      retry: NAVIGATION_RETRY,
+      action: async (ctx) => {
+        await clickLabel(FlutterPage.fromContext(ctx), ctx, 'schedule', 'Schedule');
+        await ctx.page!.waitForTimeout(1500);
+      },
+    },
+    {
+      name: 'capture-reservations',
+      description: 'Open the upcoming reservations view and collect bookings and waitlists.',
+      captureRules: [
+        {
+          name: 'reservations-raw',
+          urlPattern: 'graphql',
+          match: (operation) =>
+            operation.rootFields.some((field) => RESERVATION_FIELD_PATTERN.test(field))
+            || RESERVATION_FIELD_PATTERN.test(operation.operationName ?? ''),
+          extractPath: 'data',
+        },
+      ],
+      action: async (ctx) => {
+        const opened = await openReservationsView(ctx);
+        if (!opened) {
+          ctx.logger.warn('Reservations view not found; scanning the current screen');
+        }
+
+        const reservations = await collectReservations(ctx);
+        ctx.logger.info(
+          {
+            reserved: reservations.filter((record) => record.status === 'reserved').length,
+            waitlisted: reservations.filter((record) => record.status === 'waitlisted').length,
+          },
+          'Reservations collected'
+        );
+
+        if (!ctx.flowData) {
+          ctx.flowData = {};
+        }
+        ctx.flowData.reservations = reservations;
+      },
+    },
+  ],
+};
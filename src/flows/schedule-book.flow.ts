@@ -1,18 +1,36 @@
-import { FlowContext, FlowDefinition } from '../types';
-
-const SCHEDULE_LABEL = /schedule/i;
+import { FlowContext, FlowDefinition, FlowStep } from '../types';
+import { atTimeOfDay, formatLocalDate, parseDateTime, resolveWeekdayDate } from '../dates';
+import { DayButton, escapeRegExp, FlutterPage } from '../actions';
+import {
+  clickLabel,
+  findLabel,
+  hasLabel,
+  LabelKey,
+  labelPattern,
+  labelPatterns,
+  logLabelMatch,
+  matchLabel,
+  tryClickLabel,
+} from '../labels';
+
+const NAVIGATION_RETRY = { maxAttempts: 3, baseDelayMs: 1000 };
 const DAY_ORDER = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
-
-type DayKey = (typeof DAY_ORDER)[number];
-
-interface DayButton {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  label: string;
-  number: number;
-}
+const DEFAULT_MAX_WAIT_MINUTES = 60;
+const WINDOW_POLL_LEAD_MS = 20000;
+const WINDOW_POLL_INTERVAL_MS = 750;
+const WINDOW_KEEP_ALIVE_MS = 4 * 60 * 1000;
+const DAY_BUTTONS = { minSize: 16, maxTopRatio: 0.6, rowGap: 30 };
+const BOOKING_ACTION_LABELS: LabelKey[] = ['bookingAction', 'waitlisted'];
+const BOOKING_STATUS_LABELS: [LabelKey, BookingRecord['status']][] = [
+  ['reserved', 'reserved'],
+  ['checkedIn', 'reserved'],
+  ['waitlisted', 'waitlisted'],
+  ['cancelBooking', 'reserved'],
+  ['unavailable', 'unavailable'],
+  ['classFull', 'unavailable'],
+];
+
+export type DayKey = (typeof DAY_ORDER)[number];
 
 interface LabelMatch {
   x: number;
@@ -22,28 +40,32 @@ interface LabelMatch {
   label: string;
 }
 
-interface SlotMatch extends LabelMatch {
+export interface SlotMatch extends LabelMatch {
   classLabel?: LabelMatch;
 }
 
-interface BookingRecord {
+export interface BookingRecord {
   day: DayKey;
+  date?: string;
   time: string;
   className: string;
   label: string;
   status: 'reserved' | 'waitlisted' | 'attempted' | 'skipped' | 'unavailable' | 'unknown';
+  fallbackFrom?: string;
   note?: string;
 }
 
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+type TimeOutcome = 'done' | 'attempted' | 'unavailable' | 'reserve-soon';
 
 function normalizeTimeLabel(value: string): string {
   return value.toLowerCase().replace(/\s+/g, '').replace(/\./g, '');
 }
 
-function parseWeekOffset(value?: string): number {
+function timeLabelPattern(value: string): RegExp {
+  return new RegExp(normalizeTimeLabel(value).split('').map(escapeRegExp).join('[\\s.]*'), 'i');
+}
+
+export function parseWeekOffset(value?: string): number {
   if (!value) {
     return 0;
   }
@@ -64,8 +86,17 @@ function parseWeekOffset(value?: string): number {
   return 0;
 }
 
-function labelHasReserveSoon(label: string): boolean {
-  return label.toLowerCase().includes('reserve soon');
+export function parseTimeList(param?: string): string[] {
+  if (!param) {
+    return [];
+  }
+  return param.split(',').map((part) => part.trim()).filter(Boolean);
+}
+
+function labelHasReserveSoon(ctx: FlowContext, label: string): boolean {
+  const match = matchLabel(ctx.config, 'reserveSoon', label);
+  logLabelMatch(ctx.logger, match, label);
+  return match !== null;
 }
 
 async function filterSlotsByClassLabel(
@@ -77,119 +108,38 @@ async function filterSlotsByClassLabel(
     return slots;
   }
 
-  const matches = await ctx.page!.evaluate(
-    ({ slotRects, filterText }) => {
-      const host = document.querySelector('flt-semantics-host');
-      const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-        ? (host as HTMLElement).shadowRoot
-        : host;
-      if (!root) {
-        return [] as number[];
-      }
-
-      const wanted = filterText.trim().toLowerCase();
-      if (!wanted) {
-        return [] as number[];
-      }
-
-      const labelRects: {
-        top: number;
-        bottom: number;
-        left: number;
-        right: number;
-        centerY: number;
-      }[] = [];
-      const nodes = root.querySelectorAll('[aria-label]');
-      for (let i = 0; i < nodes.length; i += 1) {
-        const el = nodes[i] as HTMLElement;
-        const label = el.getAttribute('aria-label') ?? '';
-        if (!label.toLowerCase().includes(wanted)) {
-          continue;
-        }
-        const rect = el.getBoundingClientRect();
-        if (!rect || rect.width < 40 || rect.height < 18) {
-          continue;
-        }
-        if (rect.bottom < 0 || rect.top > window.innerHeight) {
-          continue;
-        }
-        const style = window.getComputedStyle(el);
-        if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-          continue;
-        }
-        labelRects.push({
-          top: rect.top,
-          bottom: rect.bottom,
-          left: rect.left,
-          right: rect.right,
-          centerY: rect.top + rect.height / 2,
-        });
-      }
-
-      if (labelRects.length === 0) {
-        return [] as number[];
-      }
-
-      const matchedIndices: number[] = [];
-      for (let i = 0; i < slotRects.length; i += 1) {
-        const slot = slotRects[i];
-        const slotTop = slot.y;
-        const slotBottom = slot.y + slot.height;
-        const slotCenter = slot.y + slot.height / 2;
-        const slotLeft = slot.x;
-        const slotRight = slot.x + slot.width;
-        const near = labelRects.some((label) => {
-          const overlapsY = label.top <= slotBottom && label.bottom >= slotTop;
-          const closeY = Math.abs(label.centerY - slotCenter) <= 40;
-          const overlapsX = label.left <= slotRight && label.right >= slotLeft;
-          return (overlapsY || closeY) && (overlapsX || Math.abs(label.left - slotLeft) <= 200);
-        });
-        if (near) {
-          matchedIndices.push(i);
-        }
-      }
-
-      return matchedIndices;
-    },
-    {
-      slotRects: slots.map((slot) => ({
-        x: slot.x,
-        y: slot.y,
-        width: slot.width,
-        height: slot.height,
-      })),
-      filterText: classFilter,
-    }
-  );
+  const wanted = classFilter.trim();
+  if (!wanted) {
+    return [];
+  }
 
-  if (!matches.length) {
+  const labels = await FlutterPage.fromContext(ctx).findAll({
+    label: wanted,
+    minWidth: 40,
+    minHeight: 18,
+    inViewport: true,
+    visible: true,
+  });
+  if (labels.length === 0) {
     return [];
   }
 
-  return matches.map((index) => slots[index]).filter(Boolean);
+  return slots.filter((slot) => {
+    const slotBottom = slot.y + slot.height;
+    const slotCenter = slot.y + slot.height / 2;
+    const slotRight = slot.x + slot.width;
+    return labels.some((label) => {
+      const overlapsY = label.y <= slotBottom && label.y + label.height >= slot.y;
+      const closeY = Math.abs(label.y + label.height / 2 - slotCenter) <= 40;
+      const overlapsX = label.x <= slotRight && label.x + label.width >= slot.x;
+      return (overlapsY || closeY) && (overlapsX || Math.abs(label.x - slot.x) <= 200);
+    });
+  });
 }
 
 async function listVisibleTimes(ctx: FlowContext): Promise<string[]> {
-  return ctx.page!.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [];
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    const results: string[] = [];
-    const timeRegex = /\b\d{1,2}:\d{2}\s?(?:AM|PM)\b/i;
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      if (timeRegex.test(label)) {
-        results.push(label.trim());
-      }
-    }
-    return results.slice(0, 20);
-  });
+  const nodes = await FlutterPage.fromContext(ctx).findAll({ label: /\b\d{1,2}:\d{2}\s?(?:AM|PM)\b/i });
+  return nodes.map((node) => node.label).slice(0, 20);
 }
 
 function normalizeDay(input: string): DayKey | null {
@@ -207,7 +157,7 @@ function normalizeDay(input: string): DayKey | null {
   return null;
 }
 
-function parseDays(param?: string): DayKey[] {
+export function parseDays(param?: string): DayKey[] {
   if (!param) {
     return [];
   }
@@ -222,102 +172,8 @@ function parseDays(param?: string): DayKey[] {
   return days;
 }
 
-async function enableFlutterSemantics(ctx: FlowContext): Promise<void> {
-  const page = ctx.page!;
-  const logger = ctx.logger;
-  const config = ctx.config;
-
-  await page
-    .locator('flt-glass-pane')
-    .waitFor({ state: 'attached', timeout: config.globalTimeout })
-    .catch(() => undefined);
-
-  const clicked = await page.evaluate(() => {
-    const glass = document.querySelector('flt-glass-pane');
-    const root = glass && 'shadowRoot' in glass && (glass as HTMLElement).shadowRoot
-      ? (glass as HTMLElement).shadowRoot
-      : glass;
-    if (!root) {
-      return false;
-    }
-
-    const placeholder = root.querySelector('flt-semantics-placeholder');
-    if (!placeholder) {
-      return false;
-    }
-
-    (placeholder as HTMLElement).click();
-    return true;
-  });
-
-  logger.debug({ clicked }, 'Flutter semantics placeholder click attempted');
-  await page.waitForTimeout(250);
-}
-
-async function clickByLabel(ctx: FlowContext, label: RegExp, labelName: string): Promise<void> {
-  const page = ctx.page!;
-  const logger = ctx.logger;
-  const config = ctx.config;
-
-  const attempts = [
-    { name: 'role-button', locator: page.getByRole('button', { name: label }) },
-    { name: 'role-link', locator: page.getByRole('link', { name: label }) },
-    { name: 'text', locator: page.getByText(label) },
-    { name: 'semantics-text', locator: page.locator('flt-semantics-host').getByText(label) },
-  ];
-
-  const perAttemptTimeout = Math.min(2000, config.globalTimeout);
-
-  for (const attempt of attempts) {
-    try {
-      logger.debug({ selector: attempt.name, label: labelName }, 'Attempting to click');
-      const handle = await attempt.locator.first().elementHandle({ timeout: perAttemptTimeout }).catch(() => null);
-      if (handle) {
-        const box = await handle.boundingBox();
-        if (box) {
-          await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
-          logger.debug({ selector: attempt.name, label: labelName }, 'Clicked');
-          return;
-        }
-      }
-    } catch {
-      // continue
-    }
-  }
-
-  throw new Error(`Failed to click ${labelName}.`);
-}
-
-async function tryClickByLabel(ctx: FlowContext, label: RegExp, labelName: string): Promise<boolean> {
-  try {
-    await clickByLabel(ctx, label, labelName);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 async function hasClassFilterPanel(ctx: FlowContext): Promise<boolean> {
-  const page = ctx.page!;
-  return page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      const normalized = label.toLowerCase();
-      if (normalized.includes('class filter') || normalized.includes('class type')) {
-        return true;
-      }
-    }
-    return false;
-  });
+  return hasLabel(FlutterPage.fromContext(ctx), ctx, 'classFilter');
 }
 
 async function clickFilterIcon(ctx: FlowContext): Promise<boolean> {
@@ -328,66 +184,29 @@ async function clickFilterIcon(ctx: FlowContext): Promise<boolean> {
     return false;
   }
 
-  const headerInfo = await page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return null as null | { y: number; right: number; label: string };
+  const nodes = await FlutterPage.fromContext(ctx).findAll({ minWidth: 60, minHeight: 16, inViewport: true });
+  const monthPattern = labelPattern(ctx.config, 'months');
+  const weekdayPattern = labelPattern(ctx.config, 'weekdays');
+  let headerInfo: { y: number; right: number; score: number; label: string } | null = null;
+  for (const node of nodes) {
+    const normalized = node.label.toLowerCase();
+    const hasMonth = monthPattern.test(node.label);
+    const hasDay = weekdayPattern.test(node.label);
+    const hasNumber = /\b\d{1,2}\b/.test(normalized);
+    if (!hasMonth || !hasDay || !hasNumber) {
+      continue;
     }
-
-    const monthNames = [
-      'january',
-      'february',
-      'march',
-      'april',
-      'may',
-      'june',
-      'july',
-      'august',
-      'september',
-      'october',
-      'november',
-      'december',
-    ];
-    const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    let best: { y: number; right: number; score: number; label: string } | null = null;
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      if (!label) {
-        continue;
-      }
-      const normalized = label.toLowerCase();
-      const hasMonth = monthNames.some((name) => normalized.includes(name));
-      const hasDay = dayNames.some((name) => normalized.includes(name));
-      const hasNumber = /\b\d{1,2}\b/.test(normalized);
-      if (!hasMonth || !hasDay || !hasNumber) {
-        continue;
-      }
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 60 || rect.height < 16) {
-        continue;
-      }
-      if (rect.bottom < 0 || rect.top > window.innerHeight) {
-        continue;
-      }
-      const hasComma = label.includes(',');
-      const hasYear = /\b20\d{2}\b/.test(normalized);
-      const score = (hasComma ? 3 : 0) + (hasMonth ? 2 : 0) + (hasDay ? 2 : 0) + (hasYear ? -2 : 0);
-      const y = rect.top + rect.height / 2;
-      if (!best || score > best.score) {
-        best = { y, right: rect.right, score, label };
-      }
+    const hasComma = node.label.includes(',');
+    const hasYear = /\b20\d{2}\b/.test(normalized);
+    const score = (hasComma ? 3 : 0) + (hasMonth ? 2 : 0) + (hasDay ? 2 : 0) + (hasYear ? -2 : 0);
+    if (!headerInfo || score > headerInfo.score) {
+      headerInfo = { y: node.y + node.height / 2, right: node.x + node.width, score, label: node.label };
     }
+  }
 
-    return best ? { y: best.y, right: best.right, label: best.label } : null;
-  });
-
-  const buttons = await waitForDayButtons(ctx, Math.min(4000, ctx.config.globalTimeout)).catch(() => []);
+  const buttons = await FlutterPage.fromContext(ctx)
+    .waitForDayButtons(Math.min(4000, ctx.config.globalTimeout), DAY_BUTTONS)
+    .catch(() => [] as DayButton[]);
   const maxY = buttons.length > 0
     ? Math.max(...buttons.map((button) => button.y + button.height))
     : Math.round(viewport.height * 0.35);
@@ -431,49 +250,25 @@ async function closeClassFilterPanel(ctx: FlowContext): Promise<boolean> {
   const page = ctx.page!;
   const logger = ctx.logger;
 
-  const showResults = await tryClickByLabel(ctx, /show\s+\d+\s+results/i, 'Show results')
-    || await tryClickByLabel(ctx, /show\s+results/i, 'Show results');
+  const flutter = FlutterPage.fromContext(ctx);
+  const showResults = await tryClickLabel(flutter, ctx, 'showResults', 'Show results');
   if (showResults) {
     await page.waitForTimeout(500);
     return true;
   }
 
-  const closedByLabel = await tryClickByLabel(ctx, /close/i, 'Close filter')
-    || await tryClickByLabel(ctx, /^x$/i, 'Close filter');
+  const closedByLabel = await tryClickLabel(flutter, ctx, 'close', 'Close filter');
   if (closedByLabel) {
     await page.waitForTimeout(500);
     return true;
   }
 
-  const headerPos = await page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return null as null | { y: number };
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      if (label.toLowerCase().includes('class filter')) {
-        const rect = el.getBoundingClientRect();
-        if (!rect || rect.height < 12) {
-          continue;
-        }
-        return { y: rect.top + rect.height / 2 };
-      }
-    }
-
-    return null;
-  });
+  const header = await findLabel(flutter, ctx, 'classFilter', { minHeight: 12 });
 
   const viewport = page.viewportSize();
-  if (viewport && headerPos) {
+  if (viewport && header) {
     const x = viewport.width - 24;
-    const y = headerPos.y;
+    const y = header.y + header.height / 2;
     logger.debug({ x: Math.round(x), y: Math.round(y) }, 'Attempting close filter icon click');
     await page.mouse.click(x, y);
     await page.waitForTimeout(500);
@@ -495,8 +290,9 @@ async function applyClassFilter(ctx: FlowContext, classFilter: string): Promise<
     return false;
   }
 
-  const opened = await tryClickByLabel(ctx, /class filter/i, 'Class filter')
-    || await tryClickByLabel(ctx, /filter/i, 'Filter')
+  const flutter = FlutterPage.fromContext(ctx);
+  const opened = await tryClickLabel(flutter, ctx, 'classFilter', 'Class filter')
+    || await tryClickLabel(flutter, ctx, 'filter', 'Filter')
     || await clickFilterIcon(ctx);
   if (!opened) {
     logger.debug({ classFilter: value }, 'Class filter control not found; skipping');
@@ -514,7 +310,7 @@ async function applyClassFilter(ctx: FlowContext, classFilter: string): Promise<
 
   let selected = false;
   for (const pattern of patterns) {
-    if (await tryClickByLabel(ctx, pattern, `Class type ${value}`)) {
+    if (await flutter.tryClickByLabel(pattern, `Class type ${value}`)) {
       selected = true;
       break;
     }
@@ -533,128 +329,20 @@ async function applyClassFilter(ctx: FlowContext, classFilter: string): Promise<
   return selected;
 }
 
-async function findWeekdayButtons(ctx: FlowContext): Promise<DayButton[]> {
-  const page = ctx.page!;
-
-  return page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [];
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    const candidates: DayButton[] = [];
-
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      const match = label.match(/(\d{1,2})/);
-      if (!match) {
-        continue;
-      }
-
-      const number = Number(match[1]);
-      if (!Number.isFinite(number)) {
-        continue;
-      }
-
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 16 || rect.height < 16) {
-        continue;
-      }
-
-      if (rect.y > window.innerHeight * 0.6) {
-        continue;
-      }
-
-      candidates.push({
-        x: rect.left,
-        y: rect.top,
-        width: rect.width,
-        height: rect.height,
-        label,
-        number,
-      });
-    }
-
-    candidates.sort((a, b) => a.y - b.y);
-    const clusters: DayButton[][] = [];
-
-    for (const candidate of candidates) {
-      const lastCluster = clusters[clusters.length - 1];
-      if (lastCluster && Math.abs(candidate.y - lastCluster[0].y) < 30) {
-        lastCluster.push(candidate);
-      } else {
-        clusters.push([candidate]);
-      }
-    }
-
-    let bestCluster: DayButton[] = [];
-    for (const cluster of clusters) {
-      if (cluster.length > bestCluster.length) {
-        bestCluster = cluster;
-      }
-    }
-
-    bestCluster.sort((a, b) => a.x - b.x);
-    return bestCluster;
-  });
-}
-
-async function waitForDayButtons(ctx: FlowContext, timeoutMs: number): Promise<DayButton[]> {
-  const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
-    const buttons = await findWeekdayButtons(ctx);
-    if (buttons.length >= DAY_ORDER.length) {
-      return buttons;
-    }
-    await ctx.page!.waitForTimeout(300);
-  }
-  return [];
-}
-
-async function dumpSemanticsLabels(ctx: FlowContext): Promise<void> {
-  const labels = await ctx.page!.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [] as string[];
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    const results: string[] = [];
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      if (label) {
-        results.push(label);
-      }
-    }
-
-    return results;
-  });
-
-  const numeric = labels.filter((label) => /\d/.test(label));
-  ctx.logger.debug({ totalLabels: labels.length, numericLabels: numeric.slice(0, 40) }, 'Semantics labels dump');
-}
-
-async function clickDayByKey(ctx: FlowContext, dayKey: DayKey): Promise<boolean> {
-  let buttons = await waitForDayButtons(ctx, Math.min(8000, ctx.config.globalTimeout));
+export async function clickDayByKey(ctx: FlowContext, dayKey: DayKey): Promise<boolean> {
+  const flutter = FlutterPage.fromContext(ctx);
+  let buttons = await flutter.waitForDayButtons(Math.min(8000, ctx.config.globalTimeout), DAY_BUTTONS);
   if (buttons.length < DAY_ORDER.length) {
     await ctx.page!.mouse.wheel(0, -2000);
     await ctx.page!.waitForTimeout(400);
     await ctx.page!.keyboard.press('Home').catch(() => undefined);
     await ctx.page!.waitForTimeout(400);
-    await enableFlutterSemantics(ctx);
-    buttons = await waitForDayButtons(ctx, Math.min(8000, ctx.config.globalTimeout));
+    await flutter.enableSemantics();
+    buttons = await flutter.waitForDayButtons(Math.min(8000, ctx.config.globalTimeout), DAY_BUTTONS);
   }
 
   if (buttons.length < DAY_ORDER.length) {
-    await dumpSemanticsLabels(ctx);
+    await flutter.dumpLabels();
     ctx.logger.warn({ dayKey, buttons: buttons.length }, 'Day buttons not found; skipping day');
     return false;
   }
@@ -671,7 +359,9 @@ async function clickDayByKey(ctx: FlowContext, dayKey: DayKey): Promise<boolean>
 async function clickNextWeekToggle(ctx: FlowContext): Promise<boolean> {
   const page = ctx.page!;
   const logger = ctx.logger;
-  const buttons = await waitForDayButtons(ctx, Math.min(8000, ctx.config.globalTimeout)).catch(() => []);
+  const buttons = await FlutterPage.fromContext(ctx)
+    .waitForDayButtons(Math.min(8000, ctx.config.globalTimeout), DAY_BUTTONS)
+    .catch(() => [] as DayButton[]);
   const maxY = buttons.length > 0
     ? Math.max(...buttons.map((button) => button.y + button.height))
     : null;
@@ -690,22 +380,8 @@ async function clickNextWeekToggle(ctx: FlowContext): Promise<boolean> {
   return false;
 }
 
-function formatDateCandidates(date: Date): RegExp[] {
-  const monthNames = [
-    'january',
-    'february',
-    'march',
-    'april',
-    'may',
-    'june',
-    'july',
-    'august',
-    'september',
-    'october',
-    'november',
-    'december',
-  ];
-  const month = monthNames[date.getMonth()];
+function formatDateCandidates(ctx: FlowContext, date: Date): RegExp[] {
+  const month = `(?:${labelPatterns(ctx.config, 'months')[date.getMonth()].source})`;
   const day = date.getDate();
   const year = date.getFullYear();
   return [
@@ -716,57 +392,24 @@ function formatDateCandidates(date: Date): RegExp[] {
 }
 
 async function selectDateInPicker(ctx: FlowContext, date: Date): Promise<boolean> {
-  const page = ctx.page!;
-  const patterns = formatDateCandidates(date);
-  const found = await page.evaluate((regexSources) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return null as null | { x: number; y: number };
-    }
-
-    const regexes = regexSources.map((source) => new RegExp(source, 'i'));
-    const nodes = root.querySelectorAll('[aria-label]');
-    let best: { el: HTMLElement; score: number } | null = null;
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      if (!label) {
-        continue;
-      }
-      let score = 0;
-      for (const regex of regexes) {
-        if (regex.test(label)) {
-          score += 1;
-        }
-      }
-      if (score === 0) {
-        continue;
-      }
-      if (!best || score > best.score) {
-        best = { el, score };
-      }
-    }
-
-    if (!best) {
-      return null;
+  const flutter = FlutterPage.fromContext(ctx);
+  const patterns = formatDateCandidates(ctx, date);
+  const nodes = await flutter.findAll();
+
+  let best: { node: (typeof nodes)[number]; score: number } | null = null;
+  for (const node of nodes) {
+    const score = patterns.filter((pattern) => pattern.test(node.label)).length;
+    if (score > 0 && (!best || score > best.score)) {
+      best = { node, score };
     }
+  }
 
-    const rect = best.el.getBoundingClientRect();
-    if (!rect || rect.width < 12 || rect.height < 12) {
-      return null;
-    }
-    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
-  }, patterns.map((pattern) => pattern.source));
-
-  if (!found) {
+  if (!best || best.node.width < 12 || best.node.height < 12) {
     return false;
   }
 
-  await page.mouse.click(found.x, found.y);
-  await page.waitForTimeout(800);
+  await flutter.clickCenter(best.node);
+  await flutter.page.waitForTimeout(800);
   return true;
 }
 
@@ -775,48 +418,13 @@ async function findTimeSlots(
   timeLabel: string
 ): Promise<SlotMatch[]> {
   const page = ctx.page!;
-  const wanted = normalizeTimeLabel(timeLabel);
-
-  const fromSemantics = await page.evaluate((timeText) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [];
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    const results: SlotMatch[] = [];
-
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      const normalized = label.toLowerCase().replace(/\s+/g, '').replace(/\./g, '');
-      if (!normalized.includes(timeText)) {
-        continue;
-      }
-
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 40 || rect.height < 18) {
-        continue;
-      }
-      if (rect.bottom < 0 || rect.top > window.innerHeight) {
-        continue;
-      }
-
-      results.push({
-        x: rect.left,
-        y: rect.top,
-        width: rect.width,
-        height: rect.height,
-        label,
-      });
-    }
-
-    results.sort((a, b) => a.y - b.y);
-    return results;
-  }, wanted);
+  const fromSemantics: SlotMatch[] = await FlutterPage.fromContext(ctx).findAll({
+    label: timeLabelPattern(timeLabel),
+    minWidth: 40,
+    minHeight: 18,
+    inViewport: true,
+  });
+  fromSemantics.sort((a, b) => a.y - b.y);
 
   if (fromSemantics.length > 0) {
     return fromSemantics;
@@ -858,108 +466,28 @@ async function findTimeSlots(
   return matches;
 }
 
-async function hasClassLabel(ctx: FlowContext, classFilter: string): Promise<boolean> {
-  const page = ctx.page!;
-  const wanted = classFilter.trim().toLowerCase();
-  return page.evaluate((filterText) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = el.getAttribute('aria-label') ?? '';
-      if (label.toLowerCase().includes(filterText)) {
-        const rect = el.getBoundingClientRect();
-        if (!rect || rect.width < 10 || rect.height < 10) {
-          continue;
-        }
-        if (rect.bottom < 0 || rect.top > window.innerHeight) {
-          continue;
-        }
-        const style = window.getComputedStyle(el);
-        if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-          continue;
-        }
-        return true;
-      }
-    }
-
-    return false;
-  }, wanted);
+export async function hasClassLabel(ctx: FlowContext, classFilter: string): Promise<boolean> {
+  return FlutterPage.fromContext(ctx).hasLabel(classFilter.trim(), {
+    minWidth: 10,
+    minHeight: 10,
+    inViewport: true,
+    visible: true,
+  });
 }
 
-async function hasTimeLabel(ctx: FlowContext, timeLabel: string): Promise<boolean> {
-  const page = ctx.page!;
-  const wanted = normalizeTimeLabel(timeLabel);
-  return page.evaluate((filterText) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      const normalized = label.toLowerCase().replace(/\s+/g, '').replace(/\./g, '');
-      if (normalized.includes(filterText)) {
-        return true;
-      }
-    }
-
-    return false;
-  }, wanted);
+export async function hasTimeLabel(ctx: FlowContext, timeLabel: string): Promise<boolean> {
+  return FlutterPage.fromContext(ctx).hasLabel(timeLabelPattern(timeLabel));
 }
 
 async function findClassLabels(ctx: FlowContext, classFilter: string): Promise<LabelMatch[]> {
   const page = ctx.page!;
-  const wanted = classFilter.trim().toLowerCase();
-  const fromSemantics = await page.evaluate((filterText) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return [];
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    const results: LabelMatch[] = [];
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim();
-      if (!label.toLowerCase().includes(filterText)) {
-        continue;
-      }
-
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 40 || rect.height < 18) {
-        continue;
-      }
-      if (rect.bottom < 0 || rect.top > window.innerHeight) {
-        continue;
-      }
-
-      results.push({
-        x: rect.left,
-        y: rect.top,
-        width: rect.width,
-        height: rect.height,
-        label,
-      });
-    }
-
-    results.sort((a, b) => a.y - b.y);
-    return results;
-  }, wanted);
+  const fromSemantics: LabelMatch[] = await FlutterPage.fromContext(ctx).findAll({
+    label: classFilter.trim(),
+    minWidth: 40,
+    minHeight: 18,
+    inViewport: true,
+  });
+  fromSemantics.sort((a, b) => a.y - b.y);
 
   if (fromSemantics.length > 0) {
     return fromSemantics;
@@ -1042,28 +570,7 @@ function attachClassLabelsToSlots(
 }
 
 async function hasBookingAction(ctx: FlowContext): Promise<boolean> {
-  const page = ctx.page!;
-  const labels = ['reserve', 'book', 'sign up', 'join', 'register', 'waitlist'];
-  return page.evaluate((values) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      const normalized = label.toLowerCase();
-      if (values.some((value) => normalized.includes(value))) {
-        return true;
-      }
-    }
-
-    return false;
-  }, labels);
+  return hasLabel(FlutterPage.fromContext(ctx), ctx, BOOKING_ACTION_LABELS);
 }
 
 async function hasVisibleText(ctx: FlowContext, pattern: RegExp): Promise<boolean> {
@@ -1095,120 +602,58 @@ async function hasVisibleText(ctx: FlowContext, pattern: RegExp): Promise<boolea
   return false;
 }
 
-async function isReservedSlotInList(ctx: FlowContext, slot: SlotMatch): Promise<boolean> {
-  const page = ctx.page!;
-  return page.evaluate(({ slotRect }) => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return false;
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const el = nodes[i] as HTMLElement;
-      const label = (el.getAttribute('aria-label') ?? '').trim().toLowerCase();
-      if (!label.includes('reserved')) {
-        continue;
-      }
-      const rect = el.getBoundingClientRect();
-      if (!rect || rect.width < 24 || rect.height < 16) {
-        continue;
-      }
-      if (rect.bottom < 0 || rect.top > window.innerHeight) {
-        continue;
-      }
-
-      const slotTop = slotRect.y - 24;
-      const slotBottom = slotRect.y + slotRect.height + 120;
-      const withinY = rect.bottom >= slotTop && rect.top <= slotBottom;
-      const toRight = rect.left >= slotRect.x + 120;
-      if (withinY && toRight) {
-        return true;
-      }
-    }
+export async function isReservedSlotInList(ctx: FlowContext, slot: SlotMatch): Promise<boolean> {
+  const badges = await FlutterPage.fromContext(ctx).findAll({
+    label: labelPattern(ctx.config, 'reservedBadge'),
+    minWidth: 24,
+    minHeight: 16,
+    inViewport: true,
+  });
 
-    return false;
-  }, {
-    slotRect: {
-      x: slot.x,
-      y: slot.y,
-      width: slot.width,
-      height: slot.height,
-    },
+  const slotTop = slot.y - 24;
+  const slotBottom = slot.y + slot.height + 120;
+  return badges.some((badge) => {
+    const withinY = badge.y + badge.height >= slotTop && badge.y <= slotBottom;
+    const toRight = badge.x >= slot.x + 120;
+    return withinY && toRight;
   });
 }
 
-async function detectBookingOutcome(ctx: FlowContext): Promise<BookingRecord['status']> {
-  const page = ctx.page!;
-  const fromSemantics = await page.evaluate(() => {
-    const host = document.querySelector('flt-semantics-host');
-    const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-      ? (host as HTMLElement).shadowRoot
-      : host;
-    if (!root) {
-      return 'unknown';
-    }
-
-    const nodes = root.querySelectorAll('[aria-label]');
-    for (let i = 0; i < nodes.length; i += 1) {
-      const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-      const normalized = label.toLowerCase();
-      if (normalized.includes('reserved')) {
-        return 'reserved';
-      }
-      if (
-        normalized.includes('registered')
-        || normalized.includes('booked')
-        || normalized.includes('enrolled')
-        || normalized.includes('attending')
-        || normalized.includes('checked in')
-        || normalized.includes('check in')
-        || normalized.includes('check-in')
-      ) {
-        return 'reserved';
-      }
-      if (normalized.includes('waitlist')) {
-        return 'waitlisted';
-      }
-      if (
-        normalized.includes('cancel reservation')
-        || normalized.includes('cancel booking')
-        || normalized.includes('cancel class')
-        || normalized.includes('leave waitlist')
-        || normalized.includes('cancel waitlist')
-        || normalized.includes('withdraw')
-      ) {
-        return normalized.includes('waitlist') ? 'waitlisted' : 'reserved';
-      }
-      if (normalized.includes('unavailable') || normalized.includes('class full')) {
-        return 'unavailable';
-      }
+function bookingStatusFromLabel(ctx: FlowContext, label: string): BookingRecord['status'] | null {
+  for (const [key, status] of BOOKING_STATUS_LABELS) {
+    const match = matchLabel(ctx.config, key, label);
+    if (match) {
+      logLabelMatch(ctx.logger, match, label);
+      return status;
     }
+  }
+  return null;
+}
 
-    return 'unknown';
-  }) as BookingRecord['status'];
+export async function detectBookingOutcome(ctx: FlowContext): Promise<BookingRecord['status']> {
+  const labels = await FlutterPage.fromContext(ctx).labels();
+  const fromSemantics = labels
+    .map((label) => bookingStatusFromLabel(ctx, label))
+    .find((status) => status !== null) ?? 'unknown';
 
   if (fromSemantics !== 'unknown') {
     return fromSemantics;
   }
 
-  if (await hasVisibleText(ctx, /check\s*-?\s*in/i)) {
+  if (await hasVisibleText(ctx, labelPattern(ctx.config, 'checkedIn'))) {
     return 'reserved';
   }
-  if (await hasVisibleText(ctx, /cancel\s+(reservation|booking|class)/i)) {
+  if (await hasVisibleText(ctx, labelPattern(ctx.config, 'cancelBooking'))) {
     return 'reserved';
   }
-  if (await hasVisibleText(ctx, /waitlist/i)) {
+  if (await hasVisibleText(ctx, labelPattern(ctx.config, 'waitlisted'))) {
     return 'waitlisted';
   }
 
   return 'unknown';
 }
 
-async function openSlotDetails(
+export async function openSlotDetails(
   ctx: FlowContext,
   slot: SlotMatch,
   classFilter?: string
@@ -1229,7 +674,7 @@ async function openSlotDetails(
       ctx.page = popup;
       page = popup;
       logger.debug({ selector: label }, 'Popup opened; switching to popup page');
-      await enableFlutterSemantics(ctx);
+      await FlutterPage.fromContext(ctx).enableSemantics();
     }
   };
 
@@ -1312,68 +757,66 @@ async function waitForTimeSlots(ctx: FlowContext, timeLabel: string, timeoutMs:
 }
 
 async function findTimeSlotsWithScroll(ctx: FlowContext, timeLabel: string): Promise<SlotMatch[]> {
-  const page = ctx.page!;
-  const maxScrolls = 12;
-  const scrollStep = 600;
+  return FlutterPage.fromContext(ctx).scrollUntil(() => findTimeSlots(ctx, timeLabel), { maxScrolls: 12, step: 600 });
+}
 
-  let slots = await findTimeSlots(ctx, timeLabel);
-  if (slots.length > 0) {
-    return slots;
+async function clickBookingAction(ctx: FlowContext): Promise<void> {
+  const flutter = FlutterPage.fromContext(ctx);
+  if (!(await tryClickLabel(flutter, ctx, 'bookingAction', 'booking action'))) {
+    throw new Error('Booking action button not found.');
   }
+}
 
-  for (let i = 0; i < maxScrolls; i += 1) {
-    await page.mouse.wheel(0, scrollStep);
-    await page.waitForTimeout(500);
-    slots = await findTimeSlots(ctx, timeLabel);
-    if (slots.length > 0) {
-      return slots;
-    }
+export async function findDaySlots(
+  ctx: FlowContext,
+  day: DayKey,
+  timeParam: string,
+  classParam: string,
+  waitMs = 6000
+): Promise<SlotMatch[]> {
+  let slots = await waitForTimeSlots(ctx, timeParam, waitMs);
+  if (slots.length === 0) {
+    slots = await findTimeSlotsWithScroll(ctx, timeParam);
+  }
+  if (slots.length === 0) {
+    const visibleTimes = await listVisibleTimes(ctx);
+    ctx.logger.info({ day, time: timeParam, visibleTimes }, 'No slots matched time');
+    return [];
   }
 
-  return [];
-}
-
-async function clickBookingAction(ctx: FlowContext): Promise<void> {
-  const page = ctx.page!;
-  const logger = ctx.logger;
-  const config = ctx.config;
-
-  const labels = [/reserve/i, /book/i, /sign up/i, /join/i, /register/i];
-  const perAttemptTimeout = Math.min(2000, config.globalTimeout);
-
-  for (const label of labels) {
-    const attempts = [
-      { name: 'role-button', locator: page.getByRole('button', { name: label }) },
-      { name: 'text', locator: page.getByText(label) },
-      { name: 'semantics-text', locator: page.locator('flt-semantics-host').getByText(label) },
-    ];
-
-    for (const attempt of attempts) {
-      try {
-        logger.debug({ selector: attempt.name, label: label.source }, 'Attempting to click booking action');
-        const handle = await attempt.locator.first().elementHandle({ timeout: perAttemptTimeout }).catch(() => null);
-        if (handle) {
-          const box = await handle.boundingBox();
-          if (box) {
-            await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
-            logger.debug({ selector: attempt.name, label: label.source }, 'Clicked booking action');
-            return;
-          }
-        }
-      } catch {
-        // continue
-      }
+  let slotsToUse = slots;
+  if (classParam) {
+    const classLabels = await findClassLabels(ctx, classParam);
+    const matchedByLabel = classLabels.length > 0 ? attachClassLabelsToSlots(slots, classLabels) : [];
+    const matchedByProximity = matchedByLabel.length > 0
+      ? []
+      : await filterSlotsByClassLabel(ctx, slots, classParam);
+
+    if (matchedByLabel.length > 0) {
+      slotsToUse = matchedByLabel;
+    } else if (matchedByProximity.length > 0) {
+      slotsToUse = matchedByProximity;
+    } else if (slots.length > 1) {
+      ctx.logger.info(
+        { day, time: timeParam, classParam, slots: slots.length },
+        'Multiple slots found but none matched class label; skipping time'
+      );
+      return [];
+    } else {
+      ctx.logger.debug(
+        { day, time: timeParam, classParam },
+        'No class labels matched; using single time match'
+      );
     }
   }
 
-  throw new Error('Booking action button not found.');
+  ctx.logger.debug({ day, time: timeParam, slots: slotsToUse.length }, 'Matched slots');
+  return slotsToUse;
 }
 
-async function closeDetails(ctx: FlowContext): Promise<void> {
+export async function closeDetails(ctx: FlowContext): Promise<void> {
   const page = ctx.page!;
-  const labels = [/back/i, /close/i, /^x$/i, /cancel/i];
-
-  for (const label of labels) {
+  for (const label of labelPatterns(ctx.config, 'dismiss')) {
     try {
       const locator = page.getByRole('button', { name: label });
       const handle = await locator.first().elementHandle({ timeout: 500 }).catch(() => null);
@@ -1397,7 +840,7 @@ async function closeDetails(ctx: FlowContext): Promise<void> {
 
   for (const point of fallbackPoints) {
     await page.mouse.click(point.x, point.y);
-    const buttons = await waitForDayButtons(ctx, 1500).catch(() => []);
+    const buttons = await FlutterPage.fromContext(ctx).waitForDayButtons(1500, DAY_BUTTONS).catch(() => []);
     if (buttons.length >= DAY_ORDER.length) {
       return;
     }
@@ -1406,79 +849,385 @@ async function closeDetails(ctx: FlowContext): Promise<void> {
   await page.keyboard.press('Escape').catch(() => undefined);
 }
 
-export const scheduleBookFlow: FlowDefinition = {
-  name: 'schedule-book',
-  description: 'Book CrossFit sessions on specified days and time',
-  steps: [
-    {
-      name: 'navigate-home',
-      description: 'Open the members app home screen.',
-      action: async (ctx) => {
-        await ctx.page!.goto(ctx.config.baseUrl, { waitUntil: 'domcontentloaded' });
-        await ctx.page!.waitForTimeout(1000);
-      },
+function resolveWindowOpenAt(ctx: FlowContext, day: DayKey, timeParam: string): Date | null {
+  const openAtParam = ctx.params?.openAt;
+  if (openAtParam) {
+    const openAt = parseDateTime(openAtParam);
+    if (!openAt) {
+      throw new Error(`Invalid --open-at value: ${openAtParam}`);
+    }
+    return openAt;
+  }
+
+  const windowHours = Number(ctx.params?.bookingWindow);
+  if (ctx.params?.bookingWindow && Number.isFinite(windowHours)) {
+    const classStart = atTimeOfDay(resolveWeekdayDate(day, parseWeekOffset(ctx.params?.week)), timeParam);
+    if (classStart) {
+      return new Date(classStart.getTime() - windowHours * 60 * 60 * 1000);
+    }
+  }
+
+  return null;
+}
+
+async function refreshDay(ctx: FlowContext, day: DayKey): Promise<boolean> {
+  const index = DAY_ORDER.indexOf(day);
+  const neighbour = DAY_ORDER[index === DAY_ORDER.length - 1 ? index - 1 : index + 1];
+  await clickDayByKey(ctx, neighbour);
+  await ctx.page!.waitForTimeout(300);
+  return clickDayByKey(ctx, day);
+}
+
+async function waitForReservationWindow(
+  ctx: FlowContext,
+  day: DayKey,
+  timeParam: string,
+  classParam: string
+): Promise<SlotMatch[]> {
+  const page = ctx.page!;
+  const maxWaitMinutes = Number(ctx.params?.maxWait ?? DEFAULT_MAX_WAIT_MINUTES);
+  const deadline = Date.now() + (Number.isFinite(maxWaitMinutes) ? maxWaitMinutes : DEFAULT_MAX_WAIT_MINUTES) * 60 * 1000;
+  const openAt = resolveWindowOpenAt(ctx, day, timeParam);
+
+  if (openAt && openAt.getTime() > deadline) {
+    ctx.logger.warn(
+      { day, time: timeParam, openAt: openAt.toISOString(), deadline: new Date(deadline).toISOString() },
+      'Reservation window opens after --max-wait; not waiting'
+    );
+    return [];
+  }
+
+  ctx.logger.info(
+    { day, time: timeParam, openAt: openAt?.toISOString() ?? 'unknown', deadline: new Date(deadline).toISOString() },
+    'Waiting for reservation window to open'
+  );
+
+  const pollFrom = openAt ? openAt.getTime() - WINDOW_POLL_LEAD_MS : Date.now();
+  while (Date.now() < pollFrom) {
+    const waitMs = Math.min(WINDOW_KEEP_ALIVE_MS, pollFrom - Date.now());
+    await page.waitForTimeout(waitMs);
+    if (Date.now() < pollFrom) {
+      ctx.logger.debug({ day, remainingMs: pollFrom - Date.now() }, 'Keeping session alive while waiting');
+      await refreshDay(ctx, day);
+    }
+  }
+
+  while (Date.now() < deadline) {
+    if (!(await refreshDay(ctx, day))) {
+      return [];
+    }
+    const slots = await findDaySlots(ctx, day, timeParam, classParam, 1500);
+    const open = slots.filter((slot) => !labelHasReserveSoon(ctx, slot.label));
+    if (open.length > 0) {
+      ctx.logger.info({ day, time: timeParam, label: open[0].label }, 'Reservation window open');
+      return open;
+    }
+    await page.waitForTimeout(WINDOW_POLL_INTERVAL_MS);
+  }
+
+  ctx.logger.warn({ day, time: timeParam }, 'Reservation window did not open before --max-wait');
+  return [];
+}
+
+async function bookSlotsAtTime(
+  ctx: FlowContext,
+  day: DayKey,
+  timeParam: string,
+  slots: SlotMatch[],
+  fallbackFrom?: string
+): Promise<TimeOutcome> {
+  const classParam = ctx.params?.class ?? 'CrossFit';
+  const confirm = ctx.params?.confirm === 'true';
+  const allowWaitlist = ctx.params?.waitlist === 'true';
+  const flowData = ctx.flowData!;
+  const bookings = flowData.bookings as BookingRecord[];
+  const matches = flowData.matches as BookingRecord[];
+  const attempts = flowData.attempts as BookingRecord[];
+  const date = formatLocalDate(resolveWeekdayDate(day, parseWeekOffset(ctx.params?.week)));
+  let result: TimeOutcome = 'unavailable';
+
+  for (const slot of slots) {
+    const listReserved = await isReservedSlotInList(ctx, slot);
+    if (listReserved) {
+      ctx.logger.info({ day, time: timeParam, label: slot.label }, 'Slot already reserved in list; skipping');
+      bookings.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: 'reserved',
+        note: 'already-reserved-list',
+      });
+      result = 'done';
+      continue;
+    }
+
+    if (labelHasReserveSoon(ctx, slot.label)) {
+      ctx.logger.info({ day, label: slot.label }, 'Reserve-soon slot detected');
+      return 'reserve-soon';
+    }
+
+    if (!confirm) {
+      matches.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: 'attempted',
+      });
+      ctx.logger.info({ day, time: timeParam, label: slot.label }, 'Dry-run match');
+      result = 'done';
+      continue;
+    }
+
+    const basePage = ctx.page!;
+    const detailPage = await openSlotDetails(ctx, slot, classParam);
+
+    const hasTime = await hasTimeLabel(ctx, timeParam);
+    if (!hasTime) {
+      ctx.logger.debug({ day, label: slot.label, time: timeParam }, 'Time label not found in details; skipping');
+      await closeDetails(ctx);
+      attempts.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: 'skipped',
+        note: 'time-mismatch',
+      });
+      if (detailPage !== basePage) {
+        await detailPage.close().catch(() => undefined);
+        ctx.page = basePage;
+        await basePage.bringToFront().catch(() => undefined);
+        await basePage.waitForTimeout(300);
+      }
+      continue;
+    }
+
+    if (classParam) {
+      const hasClass = await hasClassLabel(ctx, classParam);
+      if (!hasClass) {
+        ctx.logger.debug({ day, label: slot.label }, 'Class label not found in details; skipping');
+        await closeDetails(ctx);
+        attempts.push({
+          day,
+          date,
+          time: timeParam,
+          className: classParam,
+          fallbackFrom,
+          label: slot.label,
+          status: 'skipped',
+          note: 'class-mismatch',
+        });
+        if (detailPage !== basePage) {
+          await detailPage.close().catch(() => undefined);
+          ctx.page = basePage;
+          await basePage.bringToFront().catch(() => undefined);
+          await basePage.waitForTimeout(300);
+        }
+        continue;
+      }
+    }
+
+    const preOutcome = await detectBookingOutcome(ctx);
+    if (preOutcome === 'reserved' || preOutcome === 'waitlisted') {
+      bookings.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: preOutcome,
+        note: 'already-booked',
+      });
+      result = 'done';
+      await closeDetails(ctx);
+      if (detailPage !== basePage) {
+        await detailPage.close().catch(() => undefined);
+        ctx.page = basePage;
+        await basePage.bringToFront().catch(() => undefined);
+        await basePage.waitForTimeout(300);
+      }
+      continue;
+    }
+
+    const hasAction = await hasBookingAction(ctx);
+    if (!hasAction) {
+      ctx.logger.debug({ day, label: slot.label }, 'Booking action not available; skipping');
+      await closeDetails(ctx);
+      attempts.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: 'unavailable',
+        note: 'no-booking-action',
+      });
+      if (detailPage !== basePage) {
+        await detailPage.close().catch(() => undefined);
+        ctx.page = basePage;
+        await basePage.bringToFront().catch(() => undefined);
+        await basePage.waitForTimeout(300);
+      }
+      continue;
+    }
+
+    if (!allowWaitlist) {
+      const waitlistOnly = await hasLabel(FlutterPage.fromContext(ctx), ctx, ['classFull', 'waitlisted']);
+      if (waitlistOnly) {
+        ctx.logger.info({ day, label: slot.label }, 'Skipping waitlist-only slot');
+        await closeDetails(ctx);
+        attempts.push({
+          day,
+          date,
+          time: timeParam,
+          className: classParam,
+          fallbackFrom,
+          label: slot.label,
+          status: 'skipped',
+          note: 'waitlist-only',
+        });
+        if (detailPage !== basePage) {
+          await detailPage.close().catch(() => undefined);
+          ctx.page = basePage;
+          await basePage.bringToFront().catch(() => undefined);
+          await basePage.waitForTimeout(300);
+        }
+        continue;
+      }
+    }
+
+    await clickBookingAction(ctx);
+    await ctx.page!.waitForTimeout(1200);
+    const outcome = await detectBookingOutcome(ctx);
+    if (outcome === 'reserved' || outcome === 'waitlisted') {
+      bookings.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: outcome,
+      });
+      result = 'done';
+    } else {
+      attempts.push({
+        day,
+        date,
+        time: timeParam,
+        className: classParam,
+        fallbackFrom,
+        label: slot.label,
+        status: 'attempted',
+        note: outcome,
+      });
+      if (outcome !== 'unavailable' && result !== 'done') {
+        result = 'attempted';
+      }
+    }
+    await closeDetails(ctx);
+    if (detailPage !== basePage) {
+      await detailPage.close().catch(() => undefined);
+      ctx.page = basePage;
+      await basePage.bringToFront().catch(() => undefined);
+      await basePage.waitForTimeout(300);
+    }
+    await ctx.page!.waitForTimeout(300);
+  }
+
+
+  return result;
+}
+
+export const scheduleNavigationSteps: FlowStep[] = [
+  {
+    name: 'navigate-home',
+    description: 'Open the members app home screen.',
+    action: async (ctx) => {
+      await ctx.page!.goto(ctx.config.baseUrl, { waitUntil: 'domcontentloaded' });
+      await ctx.page!.waitForTimeout(1000);
     },
-    {
-      name: 'enable-semantics',
-      description: 'Ensure Flutter semantics tree is enabled (if placeholder exists).',
-      action: async (ctx) => {
-        await enableFlutterSemantics(ctx);
-      },
+  },
+  {
+    name: 'enable-semantics',
+    description: 'Ensure Flutter semantics tree is enabled (if placeholder exists).',
+    action: async (ctx) => {
+      await FlutterPage.fromContext(ctx).enableSemantics();
     },
-    {
-      name: 'open-schedule',
-      description: 'Open the Schedule tab in the bottom navigation.',
-      action: async (ctx) => {
-        await clickByLabel(ctx, SCHEDULE_LABEL, 'Schedule');
-        await ctx.page!.waitForTimeout(1500);
-      },
+  },
+  {
+    name: 'open-schedule',
+    description: 'Open the Schedule tab in the bottom navigation.',
+    retry: NAVIGATION_RETRY,
+    action: async (ctx) => {
+      await clickLabel(FlutterPage.fromContext(ctx), ctx, 'schedule', 'Schedule');
+      await ctx.page!.waitForTimeout(1500);
     },
-    {
-      name: 'open-category',
-      description: 'Select the desired category at the top (Classes/Appointments/Events/Reservations).',
-      action: async (ctx) => {
-        const category = ctx.params?.category?.trim() || 'Classes';
-        await clickByLabel(ctx, new RegExp(category, 'i'), category);
-        await ctx.page!.waitForTimeout(1000);
-      },
+  },
+  {
+    name: 'open-category',
+    description: 'Select the desired category at the top (Classes/Appointments/Events/Reservations).',
+    retry: NAVIGATION_RETRY,
+    action: async (ctx) => {
+      const category = ctx.params?.category?.trim() || 'Classes';
+      await FlutterPage.fromContext(ctx).clickByLabel(new RegExp(escapeRegExp(category), 'i'), category);
+      await ctx.page!.waitForTimeout(1000);
     },
-    {
-      name: 'apply-class-filter',
-      description: 'Apply a class type filter if available (e.g., CrossFit).',
-      action: async (ctx) => {
-        const classParam = ctx.params?.class ?? 'CrossFit';
-        await applyClassFilter(ctx, classParam);
-      },
+  },
+  {
+    name: 'apply-class-filter',
+    description: 'Apply a class type filter if available (e.g., CrossFit).',
+    action: async (ctx) => {
+      const classParam = ctx.params?.class ?? 'CrossFit';
+      await applyClassFilter(ctx, classParam);
     },
-    {
-      name: 'maybe-open-next-week',
-      description: 'Optionally open the next week selector when requested.',
-      action: async (ctx) => {
-        const offset = parseWeekOffset(ctx.params?.week);
-        if (offset <= 0) {
-          return;
-        }
+  },
+  {
+    name: 'maybe-open-next-week',
+    description: 'Optionally open the next week selector when requested.',
+    action: async (ctx) => {
+      const offset = parseWeekOffset(ctx.params?.week);
+      if (offset <= 0) {
+        return;
+      }
 
-        const now = new Date();
-        const target = new Date(now.getTime() + offset * 7 * 24 * 60 * 60 * 1000);
-        const opened = await clickNextWeekToggle(ctx);
-        if (!opened) {
-          ctx.logger.debug('Next-week toggle not found; stopping week advance');
-          return;
-        }
+      const now = new Date();
+      const target = new Date(now.getTime() + offset * 7 * 24 * 60 * 60 * 1000);
+      const opened = await clickNextWeekToggle(ctx);
+      if (!opened) {
+        ctx.logger.debug('Next-week toggle not found; stopping week advance');
+        return;
+      }
 
-        const selected = await selectDateInPicker(ctx, target);
-        if (!selected) {
-          ctx.logger.debug(
-            { target: target.toDateString() },
-            'Could not select target date in picker; continuing on current week'
-          );
-          return;
-        }
+      const selected = await selectDateInPicker(ctx, target);
+      if (!selected) {
+        ctx.logger.debug(
+          { target: target.toDateString() },
+          'Could not select target date in picker; continuing on current week'
+        );
+        return;
+      }
 
-        await waitForDayButtons(ctx, Math.min(8000, ctx.config.globalTimeout));
-      },
+      await FlutterPage.fromContext(ctx).waitForDayButtons(Math.min(8000, ctx.config.globalTimeout), DAY_BUTTONS);
     },
+  },
+];
+
+export const scheduleBookFlow: FlowDefinition = {
+  name: 'schedule-book',
+  description: 'Book CrossFit sessions on specified days and time',
+  steps: [
+    ...scheduleNavigationSteps,
     {
       name: 'book-days',
       description: 'Book sessions for the specified days/time.',
@@ -1486,7 +1235,8 @@ export const scheduleBookFlow: FlowDefinition = {
         const daysParam = ctx.params?.days;
         const timeParam = ctx.params?.time;
         const classParam = ctx.params?.class ?? 'CrossFit';
-        const confirm = ctx.params?.confirm === 'true';
+        const fallbackTimes = parseTimeList(ctx.params?.fallbackTime);
+        const waitForOpen = ctx.params?.waitForOpen === 'true';
 
         if (!daysParam || !timeParam) {
           throw new Error('Missing --days or --time parameter.');
@@ -1511,262 +1261,61 @@ export const scheduleBookFlow: FlowDefinition = {
         }
 
         for (const day of days) {
-          const clicked = await clickDayByKey(ctx, day);
-          if (!clicked) {
-            ctx.logger.warn({ day }, 'Day buttons missing; stopping schedule booking');
-            ctx.flowData.notice = {
-              reason: 'day-buttons-missing',
-              day,
-              time: timeParam,
-            };
-            return;
-          }
-          await ctx.page!.waitForTimeout(1000);
-
-          let slots = await waitForTimeSlots(ctx, timeParam, 6000);
-          if (slots.length === 0) {
-            slots = await findTimeSlotsWithScroll(ctx, timeParam);
-          }
-          if (slots.length === 0) {
-            const visibleTimes = await listVisibleTimes(ctx);
-            ctx.logger.info({ day, time: timeParam, visibleTimes }, 'No slots matched time');
-            continue;
-          }
-
-          let slotsToUse = slots;
-          if (classParam) {
-            const classLabels = await findClassLabels(ctx, classParam);
-            const matchedByLabel = classLabels.length > 0 ? attachClassLabelsToSlots(slots, classLabels) : [];
-            const matchedByProximity = matchedByLabel.length > 0
-              ? []
-              : await filterSlotsByClassLabel(ctx, slots, classParam);
-
-            if (matchedByLabel.length > 0) {
-              slotsToUse = matchedByLabel;
-            } else if (matchedByProximity.length > 0) {
-              slotsToUse = matchedByProximity;
-            } else if (slots.length > 1) {
-              ctx.logger.info(
-                { day, time: timeParam, classParam, slots: slots.length },
-                'Multiple slots found but none matched class label; skipping time'
-              );
-              continue;
-            } else {
-              ctx.logger.debug(
-                { day, time: timeParam, classParam },
-                'No class labels matched; using single time match'
-              );
-            }
-          }
-
-            ctx.logger.debug({ day, time: timeParam, slots: slotsToUse.length }, 'Matched slots');
-
-          for (const slot of slotsToUse) {
-            const allowWaitlist = ctx.params?.waitlist === 'true';
-
-            const listReserved = await isReservedSlotInList(ctx, slot);
-            if (listReserved) {
-              ctx.logger.info({ day, time: timeParam, label: slot.label }, 'Slot already reserved in list; skipping');
-              (ctx.flowData.bookings as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: 'reserved',
-                note: 'already-reserved-list',
-              });
-              continue;
-            }
-
-            if (labelHasReserveSoon(slot.label)) {
-              ctx.logger.info({ day, label: slot.label }, 'Reserve-soon slot detected; stopping flow');
-              (ctx.flowData.attempts as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: 'skipped',
-                note: 'reserve-soon',
-              });
+          const candidates = [timeParam, ...fallbackTimes];
+          for (const [index, time] of candidates.entries()) {
+            const clicked = await clickDayByKey(ctx, day);
+            if (!clicked) {
+              ctx.logger.warn({ day }, 'Day buttons missing; stopping schedule booking');
               ctx.flowData.notice = {
-                reason: 'reserve-soon',
+                reason: 'day-buttons-missing',
                 day,
-                time: timeParam,
-                label: slot.label,
+                time,
               };
               return;
             }
+            await ctx.page!.waitForTimeout(1000);
 
-            if (!confirm) {
-              (ctx.flowData.matches as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: 'attempted',
-              });
-              ctx.logger.info({ day, time: timeParam, label: slot.label }, 'Dry-run match');
-              continue;
-            }
-
-            const basePage = ctx.page!;
-            const detailPage = await openSlotDetails(ctx, slot, classParam);
-
-            const hasTime = await hasTimeLabel(ctx, timeParam);
-            if (!hasTime) {
-              ctx.logger.debug({ day, label: slot.label, time: timeParam }, 'Time label not found in details; skipping');
-              await closeDetails(ctx);
-              (ctx.flowData.attempts as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: 'skipped',
-                note: 'time-mismatch',
-              });
-              if (detailPage !== basePage) {
-                await detailPage.close().catch(() => undefined);
-                ctx.page = basePage;
-                await basePage.bringToFront().catch(() => undefined);
-                await basePage.waitForTimeout(300);
-              }
-              continue;
-            }
-
-            if (classParam) {
-              const hasClass = await hasClassLabel(ctx, classParam);
-              if (!hasClass) {
-                ctx.logger.debug({ day, label: slot.label }, 'Class label not found in details; skipping');
-                await closeDetails(ctx);
-                (ctx.flowData.attempts as BookingRecord[]).push({
-                  day,
-                  time: timeParam,
-                  className: classParam,
-                  label: slot.label,
-                  status: 'skipped',
-                  note: 'class-mismatch',
-                });
-                if (detailPage !== basePage) {
-                  await detailPage.close().catch(() => undefined);
-                  ctx.page = basePage;
-                  await basePage.bringToFront().catch(() => undefined);
-                  await basePage.waitForTimeout(300);
-                }
-                continue;
-              }
+            const fallbackFrom = index > 0 ? timeParam : undefined;
+            if (fallbackFrom) {
+              ctx.logger.info({ day, time, fallbackFrom }, 'Trying fallback time');
             }
 
-            const preOutcome = await detectBookingOutcome(ctx);
-            if (preOutcome === 'reserved' || preOutcome === 'waitlisted') {
-              (ctx.flowData.bookings as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: preOutcome,
-                note: 'already-booked',
-              });
-              await closeDetails(ctx);
-              if (detailPage !== basePage) {
-                await detailPage.close().catch(() => undefined);
-                ctx.page = basePage;
-                await basePage.bringToFront().catch(() => undefined);
-                await basePage.waitForTimeout(300);
+            const slots = await findDaySlots(ctx, day, time, classParam);
+            let outcome = slots.length > 0
+              ? await bookSlotsAtTime(ctx, day, time, slots, fallbackFrom)
+              : 'unavailable';
+            const reserveSoonLabel = slots.find((slot) => labelHasReserveSoon(ctx, slot.label))?.label;
+            let waited = false;
+            if (outcome === 'reserve-soon' && waitForOpen) {
+              waited = true;
+              const opened = await waitForReservationWindow(ctx, day, time, classParam);
+              if (opened.length > 0) {
+                outcome = await bookSlotsAtTime(ctx, day, time, opened, fallbackFrom);
               }
-              continue;
             }
-
-            const hasAction = await hasBookingAction(ctx);
-            if (!hasAction) {
-              ctx.logger.debug({ day, label: slot.label }, 'Booking action not available; skipping');
-              await closeDetails(ctx);
+            if (outcome === 'reserve-soon') {
+              ctx.logger.info({ day, label: reserveSoonLabel }, 'Reservation window not open; stopping flow');
               (ctx.flowData.attempts as BookingRecord[]).push({
                 day,
-                time: timeParam,
+                date: formatLocalDate(resolveWeekdayDate(day, parseWeekOffset(ctx.params?.week))),
+                time,
                 className: classParam,
-                label: slot.label,
-                status: 'unavailable',
-                note: 'no-booking-action',
-              });
-              if (detailPage !== basePage) {
-                await detailPage.close().catch(() => undefined);
-                ctx.page = basePage;
-                await basePage.bringToFront().catch(() => undefined);
-                await basePage.waitForTimeout(300);
-              }
-              continue;
-            }
-
-            if (!allowWaitlist) {
-              const waitlistOnly = await ctx.page!.evaluate(() => {
-                const host = document.querySelector('flt-semantics-host');
-                const root = host && 'shadowRoot' in host && (host as HTMLElement).shadowRoot
-                  ? (host as HTMLElement).shadowRoot
-                  : host;
-                if (!root) {
-                  return false;
-                }
-
-                const nodes = root.querySelectorAll('[aria-label]');
-                for (let i = 0; i < nodes.length; i += 1) {
-                  const label = (nodes[i] as HTMLElement).getAttribute('aria-label') ?? '';
-                  const normalized = label.toLowerCase();
-                  if (normalized.includes('class full') || normalized.includes('waitlist')) {
-                    return true;
-                  }
-                }
-                return false;
-              });
-              if (waitlistOnly) {
-                ctx.logger.info({ day, label: slot.label }, 'Skipping waitlist-only slot');
-                await closeDetails(ctx);
-                (ctx.flowData.attempts as BookingRecord[]).push({
-                  day,
-                  time: timeParam,
-                  className: classParam,
-                  label: slot.label,
-                  status: 'skipped',
-                  note: 'waitlist-only',
-                });
-                if (detailPage !== basePage) {
-                  await detailPage.close().catch(() => undefined);
-                  ctx.page = basePage;
-                  await basePage.bringToFront().catch(() => undefined);
-                  await basePage.waitForTimeout(300);
-                }
-                continue;
-              }
-            }
-
-            await clickBookingAction(ctx);
-            await ctx.page!.waitForTimeout(1200);
-            const outcome = await detectBookingOutcome(ctx);
-            if (outcome === 'reserved' || outcome === 'waitlisted') {
-              (ctx.flowData.bookings as BookingRecord[]).push({
-                day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: outcome,
+                fallbackFrom,
+                label: reserveSoonLabel ?? '',
+                status: 'skipped',
+                note: waited ? 'reserve-soon-timeout' : 'reserve-soon',
               });
-            } else {
-              (ctx.flowData.attempts as BookingRecord[]).push({
+              ctx.flowData.notice = {
+                reason: waited ? 'reserve-soon-timeout' : 'reserve-soon',
                 day,
-                time: timeParam,
-                className: classParam,
-                label: slot.label,
-                status: 'attempted',
-                note: outcome,
-              });
+                time,
+                label: reserveSoonLabel,
+              };
+              return;
             }
-            await closeDetails(ctx);
-            if (detailPage !== basePage) {
-              await detailPage.close().catch(() => undefined);
-              ctx.page = basePage;
-              await basePage.bringToFront().catch(() => undefined);
-              await basePage.waitForTimeout(300);
+            if (outcome !== 'unavailable') {
+              break;
             }
-            await ctx.page!.waitForTimeout(300);
           }
         }
       },
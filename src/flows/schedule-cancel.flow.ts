@@ -0,0 +1,211 @@
+import type { Page } from 'playwright';
+import { FlowContext, FlowDefinition } from '../types';
+import { boxCenter, FlutterPage } from '../actions';
+import { LabelKey, labelEntries, logLabelMatch } from '../labels';
+import {
+  closeDetails,
+  clickDayByKey,
+  DayKey,
+  detectBookingOutcome,
+  findDaySlots,
+  hasClassLabel,
+  hasTimeLabel,
+  isReservedSlotInList,
+  openSlotDetails,
+  parseDays,
+  scheduleNavigationSteps,
+  SlotMatch,
+} from './schedule-book.flow';
+
+const CANCEL_ACTION_LABELS: LabelKey[] = ['cancelBooking', 'leaveWaitlist'];
+
+interface CancellationRecord {
+  day: DayKey;
+  time: string;
+  className: string;
+  label?: string;
+  status: 'cancelled' | 'not-found' | 'matched' | 'failed';
+  previousStatus?: 'reserved' | 'waitlisted';
+  note?: string;
+}
+
+async function findCancelAction(ctx: FlowContext): Promise<{ x: number; y: number; label: string } | null> {
+  const flutter = FlutterPage.fromContext(ctx);
+  for (const entry of labelEntries(ctx.config, CANCEL_ACTION_LABELS)) {
+    const box = await flutter.locateByLabel(entry.pattern, entry.synonym, { timeoutMs: 500, minSize: 4 });
+    if (box) {
+      logLabelMatch(ctx.logger, entry);
+      return { ...boxCenter(box), label: entry.synonym };
+    }
+  }
+
+  return null;
+}
+
+async function confirmCancelDialog(ctx: FlowContext, actionPoint: { x: number; y: number }): Promise<boolean> {
+  const flutter = FlutterPage.fromContext(ctx);
+  for (const entry of labelEntries(ctx.config, 'confirmCancel')) {
+    if (await flutter.tryClickByLabel(entry.pattern, entry.synonym, { minSize: 4, exclude: actionPoint })) {
+      logLabelMatch(ctx.logger, entry);
+      ctx.logger.debug({ label: entry.synonym }, 'Confirmed cancel dialog');
+      return true;
+    }
+  }
+
+  return false;
+}
+
+async function restoreBasePage(ctx: FlowContext, detailPage: Page, basePage: Page): Promise<void> {
+  await closeDetails(ctx);
+  if (detailPage !== basePage) {
+    await detailPage.close().catch(() => undefined);
+    ctx.page = basePage;
+    await basePage.bringToFront().catch(() => undefined);
+    await basePage.waitForTimeout(300);
+  }
+}
+
+async function orderReservedFirst(ctx: FlowContext, slots: SlotMatch[]): Promise<SlotMatch[]> {
+  const reserved: SlotMatch[] = [];
+  const others: SlotMatch[] = [];
+  for (const slot of slots) {
+    if (await isReservedSlotInList(ctx, slot)) {
+      reserved.push(slot);
+    } else {
+      others.push(slot);
+    }
+  }
+  return [...reserved, ...others];
+}
+
+export const scheduleCancelFlow: FlowDefinition = {
+  name: 'schedule-cancel',
+  description: 'Cancel reservations or leave waitlists on specified days and time',
+  steps: [
+    ...scheduleNavigationSteps,
+    {
+      name: 'cancel-days',
+      description: 'Cancel reservations or waitlist spots for the specified days/time.',
+      action: async (ctx) => {
+        const daysParam = ctx.params?.days;
+        const timeParam = ctx.params?.time;
+        const classParam = ctx.params?.class ?? 'CrossFit';
+        const confirm = ctx.params?.confirm === 'true';
+
+        if (!daysParam || !timeParam) {
+          throw new Error('Missing --days or --time parameter.');
+        }
+
+        const days = parseDays(daysParam);
+        if (days.length === 0) {
+          throw new Error('No valid days found in --days.');
+        }
+
+        if (!ctx.flowData) {
+          ctx.flowData = {};
+        }
+        const cancellations: CancellationRecord[] = [];
+        ctx.flowData.cancellations = cancellations;
+
+        for (const day of days) {
+          const clicked = await clickDayByKey(ctx, day);
+          if (!clicked) {
+            ctx.logger.warn({ day }, 'Day buttons missing; stopping schedule cancel');
+            ctx.flowData.notice = {
+              reason: 'day-buttons-missing',
+              day,
+              time: timeParam,
+            };
+            return;
+          }
+          await ctx.page!.waitForTimeout(1000);
+
+          const slots = await findDaySlots(ctx, day, timeParam, classParam);
+          if (slots.length === 0) {
+            cancellations.push({
+              day,
+              time: timeParam,
+              className: classParam,
+              status: 'not-found',
+              note: 'no-slot',
+            });
+            continue;
+          }
+
+          let record: CancellationRecord | null = null;
+          for (const slot of await orderReservedFirst(ctx, slots)) {
+            const basePage = ctx.page!;
+            const detailPage = await openSlotDetails(ctx, slot, classParam);
+
+            const matchesSlot = await hasTimeLabel(ctx, timeParam)
+              && (!classParam || await hasClassLabel(ctx, classParam));
+            if (!matchesSlot) {
+              ctx.logger.debug({ day, label: slot.label }, 'Slot details do not match; skipping');
+              await restoreBasePage(ctx, detailPage, basePage);
+              continue;
+            }
+
+            const outcome = await detectBookingOutcome(ctx);
+            const action = await findCancelAction(ctx);
+            if ((outcome !== 'reserved' && outcome !== 'waitlisted') || !action) {
+              ctx.logger.debug({ day, label: slot.label, outcome }, 'Slot is not reserved; skipping');
+              await restoreBasePage(ctx, detailPage, basePage);
+              continue;
+            }
+
+            if (!confirm) {
+              record = {
+                day,
+                time: timeParam,
+                className: classParam,
+                label: slot.label,
+                status: 'matched',
+                previousStatus: outcome,
+                note: action.label,
+              };
+              ctx.logger.info({ day, time: timeParam, label: slot.label, outcome }, 'Dry-run cancel match');
+              await restoreBasePage(ctx, detailPage, basePage);
+              break;
+            }
+
+            ctx.logger.debug({ day, label: action.label }, 'Clicking cancel action');
+            await ctx.page!.mouse.click(action.x, action.y);
+            await ctx.page!.waitForTimeout(800);
+            const confirmed = await confirmCancelDialog(ctx, action);
+            if (!confirmed) {
+              ctx.logger.debug({ day }, 'No confirmation dialog found; assuming direct cancel');
+            }
+            await ctx.page!.waitForTimeout(1200);
+
+            const stillBooked = await findCancelAction(ctx);
+            record = {
+              day,
+              time: timeParam,
+              className: classParam,
+              label: slot.label,
+              status: stillBooked ? 'failed' : 'cancelled',
+              previousStatus: outcome,
+            };
+            if (stillBooked) {
+              record.note = 'cancel-action-still-visible';
+            }
+            ctx.logger.info({ day, time: timeParam, label: slot.label, status: record.status }, 'Cancel attempted');
+            await restoreBasePage(ctx, detailPage, basePage);
+            break;
+          }
+
+          cancellations.push(
+            record ?? {
+              day,
+              time: timeParam,
+              className: classParam,
+              status: 'not-found',
+              note: 'no-reservation',
+            }
+          );
+          await ctx.page!.waitForTimeout(300);
+        }
+      },
+    },
+  ],
+};
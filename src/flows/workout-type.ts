@@ -0,0 +1,129 @@
+import { FlowContext } from '../types';
+import { escapeRegExp, FlutterPage, normalizeLabel, SemanticsNode } from '../actions';
+import { labelPattern, loadLabels } from '../labels';
+
+async function findWorkoutTypeSelector(ctx: FlowContext): Promise<SemanticsNode | null> {
+  const nodes = await FlutterPage.fromContext(ctx).findAll({ minWidth: 50, minHeight: 24, maxTopRatio: 0.22 });
+  const workoutsPattern = labelPattern(ctx.config, 'workouts');
+  const weekdays = loadLabels(ctx.config).weekdays.map(normalizeLabel);
+  const candidates = nodes.filter((node) => {
+    const normalized = normalizeLabel(node.label);
+    return node.y >= 0
+      && !node.label.includes('/')
+      && !workoutsPattern.test(node.label)
+      && !weekdays.includes(normalized)
+      && !/^\d{1,2}$/.test(normalized);
+  });
+
+  candidates.sort((a, b) => a.y - b.y || a.x - b.x);
+  return candidates[0] ?? null;
+}
+
+async function openWorkoutTypeMenu(
+  ctx: FlowContext,
+  selector?: SemanticsNode | null,
+  preferArrow = false
+): Promise<void> {
+  const flutter = FlutterPage.fromContext(ctx);
+  const page = flutter.page;
+  const logger = ctx.logger;
+  const workoutType = ctx.params?.workoutType?.trim();
+
+  const exactLabels = [workoutType, ...loadLabels(ctx.config).defaultWorkoutType].filter(
+    (value): value is string => Boolean(value)
+  );
+
+  for (const label of exactLabels) {
+    if (await flutter.tryClickByLabel(new RegExp(`^\\s*${escapeRegExp(label)}\\s*$`, 'i'), label)) {
+      return;
+    }
+  }
+
+  const candidate = selector ?? (await findWorkoutTypeSelector(ctx));
+
+  if (candidate) {
+    if (preferArrow) {
+      const arrowX = candidate.x + candidate.width - Math.min(16, Math.max(8, candidate.width * 0.1));
+      const arrowY = candidate.y + candidate.height / 2;
+      logger.debug(
+        { label: candidate.label, arrowX: Math.round(arrowX), arrowY: Math.round(arrowY) },
+        'Opening workout type selector (arrow)'
+      );
+      await page.mouse.click(arrowX, arrowY);
+    } else {
+      logger.debug({ label: candidate.label }, 'Opening workout type selector (label)');
+      await flutter.clickCenter(candidate);
+    }
+    return;
+  }
+
+  for (const label of exactLabels) {
+    if (await flutter.tryClickByLabel(new RegExp(escapeRegExp(label), 'i'), label)) {
+      return;
+    }
+  }
+
+  const viewport = page.viewportSize() ?? { width: 1280, height: 720 };
+  const fallbackX = Math.round(viewport.width * 0.94);
+  const fallbackY = Math.round(viewport.height * 0.12);
+  logger.debug(
+    { x: fallbackX, y: fallbackY, width: viewport.width, height: viewport.height },
+    'Falling back to coordinate click for workout type selector'
+  );
+  await page.mouse.click(fallbackX, fallbackY);
+}
+
+async function clickWorkoutTypeOption(ctx: FlowContext, workoutType: string): Promise<boolean> {
+  const flutter = FlutterPage.fromContext(ctx);
+  const logger = ctx.logger;
+
+  const matches = await flutter.findAll({ label: workoutType, minWidth: 1, minHeight: 1 });
+  matches.sort((a, b) => a.y - b.y || a.x - b.x);
+  const match = matches[0];
+
+  if (match) {
+    logger.debug({ workoutType: match.label }, 'Selecting workout type');
+    await flutter.clickCenter(match);
+    return true;
+  }
+
+  const labelSnapshot = Array.from(new Set(await flutter.labels().catch(() => [] as string[])));
+  if (labelSnapshot.length > 0) {
+    logger.debug(
+      { total: labelSnapshot.length, sample: labelSnapshot.slice(0, 30) },
+      'Workout type labels snapshot'
+    );
+  }
+
+  const pattern = escapeRegExp(workoutType).replace(/\s+/g, '\\s*');
+  return flutter.tryClickByLabel(new RegExp(pattern, 'i'), workoutType);
+}
+
+export async function selectWorkoutType(ctx: FlowContext): Promise<void> {
+  const workoutType = ctx.params?.workoutType?.trim();
+  if (!workoutType) {
+    return;
+  }
+
+  const selector = await findWorkoutTypeSelector(ctx);
+  if (selector && normalizeLabel(selector.label) === normalizeLabel(workoutType)) {
+    ctx.logger.debug({ workoutType }, 'Workout type already selected');
+    return;
+  }
+
+  await openWorkoutTypeMenu(ctx, selector);
+  await ctx.page!.waitForTimeout(500);
+
+  let selected = await clickWorkoutTypeOption(ctx, workoutType);
+  if (!selected) {
+    await openWorkoutTypeMenu(ctx, selector, true);
+    await ctx.page!.waitForTimeout(500);
+    selected = await clickWorkoutTypeOption(ctx, workoutType);
+  }
+
+  if (!selected) {
+    throw new Error(`Workout type "${workoutType}" not found.`);
+  }
+
+  await ctx.page!.waitForTimeout(1200);
+}
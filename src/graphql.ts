@@ -0,0 +1,137 @@
+export interface GraphqlOperation {
+  operationName?: string;
+  query?: string;
+  variables: Record<string, unknown>;
+  rootFields: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function inferOperationName(query: string | undefined): string | undefined {
+  if (!query) {
+    return undefined;
+  }
+  const match = query.match(/\b(?:query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)/);
+  return match ? match[1] : undefined;
+}
+
+function stripIgnored(query: string): string {
+  return query
+    .replace(/"""[\s\S]*?"""/g, '""')
+    .replace(/"(?:[^"\\]|\\.)*"/g, '""')
+    .replace(/#[^\n]*/g, '');
+}
+
+export function extractRootFields(query: string | undefined): string[] {
+  if (!query) {
+    return [];
+  }
+
+  const source = stripIgnored(query);
+  const start = source.indexOf('{');
+  if (start < 0) {
+    return [];
+  }
+
+  const fields: string[] = [];
+  let depth = 0;
+  let parens = 0;
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '(') {
+      parens += 1;
+    } else if (char === ')') {
+      parens -= 1;
+    } else if (parens === 0 && char === '{') {
+      depth += 1;
+    } else if (parens === 0 && char === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    } else if (parens === 0 && depth === 1 && /[A-Za-z_.]/.test(char)) {
+      const match = source.slice(i).match(/^(\.\.\.\s*)?([A-Za-z_][A-Za-z0-9_]*)(\s*:\s*([A-Za-z_][A-Za-z0-9_]*))?/);
+      if (match) {
+        if (!match[1] && match[2] !== 'on') {
+          const field = match[4] ?? match[2];
+          if (!fields.includes(field)) {
+            fields.push(field);
+          }
+        }
+        i += match[0].length;
+        continue;
+      }
+    }
+    i += 1;
+  }
+
+  return fields;
+}
+
+function toOperation(value: unknown): GraphqlOperation | null {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+
+  const query = typeof value.query === 'string' ? value.query : undefined;
+  const operationName = typeof value.operationName === 'string' && value.operationName
+    ? value.operationName
+    : inferOperationName(query);
+  if (!query && !operationName) {
+    return null;
+  }
+
+  let variables: Record<string, unknown> = {};
+  if (isPlainObject(value.variables)) {
+    variables = value.variables;
+  } else if (typeof value.variables === 'string') {
+    const parsed = parseJson(value.variables);
+    if (isPlainObject(parsed)) {
+      variables = parsed;
+    }
+  }
+
+  return {
+    operationName,
+    query,
+    variables,
+    rootFields: extractRootFields(query),
+  };
+}
+
+export function parseGraphqlOperations(url: string, postData: string | null): GraphqlOperation[] {
+  if (postData) {
+    const body = parseJson(postData);
+    const entries = Array.isArray(body) ? body : [body];
+    const operations = entries.map(toOperation);
+    return operations.every((operation) => operation !== null)
+      ? (operations as GraphqlOperation[])
+      : [];
+  }
+
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return [];
+  }
+
+  const operation = toOperation({
+    query: params.get('query') ?? undefined,
+    operationName: params.get('operationName') ?? undefined,
+    variables: params.get('variables') ?? undefined,
+  });
+  return operation ? [operation] : [];
+}
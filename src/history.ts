@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from './types';
+
+export type RunTrigger = 'cli' | 'daemon';
+
+export interface RunRecord {
+  id: string;
+  flow: string;
+  trigger: RunTrigger;
+  job?: string;
+  profile?: string;
+  params: Record<string, string | undefined>;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  success: boolean;
+  stepsCompleted?: number;
+  outputPath?: string;
+  artifactsPath?: string;
+  error?: string;
+}
+
+export interface RunHistoryQuery {
+  limit?: number;
+  flow?: string;
+  job?: string;
+  profile?: string;
+}
+
+export function createRunId(now = new Date()): string {
+  return `${now.toISOString().replace(/[-:.]/g, '').slice(0, 15)}-${process.pid}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function appendRunRecord(config: AppConfig, record: RunRecord): void {
+  fs.mkdirSync(path.dirname(config.runHistoryPath), { recursive: true });
+  fs.appendFileSync(config.runHistoryPath, `${JSON.stringify(record)}\n`, 'utf-8');
+}
+
+export function readRunHistory(config: AppConfig, query: RunHistoryQuery = {}): RunRecord[] {
+  if (!fs.existsSync(config.runHistoryPath)) {
+    return [];
+  }
+
+  const records: RunRecord[] = [];
+  for (const line of fs.readFileSync(config.runHistoryPath, 'utf-8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line) as RunRecord;
+      if (
+        (query.flow && record.flow !== query.flow) ||
+        (query.job && record.job !== query.job) ||
+        (query.profile && record.profile !== query.profile)
+      ) {
+        continue;
+      }
+      records.push(record);
+    } catch {
+      // skip malformed lines
+    }
+  }
+
+  return query.limit && query.limit > 0 ? records.slice(-query.limit) : records;
+}
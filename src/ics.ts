@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { atTimeOfDay } from './dates';
+import type { BookingRecord } from './flows/schedule-book.flow';
+
+export interface CalendarOptions {
+  calendarName?: string;
+  durationMinutes?: number;
+  location?: string;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//cfcnx-pushpress-cli//Bookings//EN';
+const UID_DOMAIN = 'cfcnx-pushpress-cli';
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_LINE_OCTETS = 75;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatLocalDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+  for (const char of line) {
+    if (Buffer.byteLength(current + char, 'utf-8') > limit) {
+      parts.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function bookingUid(booking: Pick<BookingRecord, 'date' | 'time' | 'className'>): string {
+  const key = [booking.date, booking.time, booking.className]
+    .map((part) => (part ?? '').trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|');
+  const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 24);
+  return `${hash}@${UID_DOMAIN}`;
+}
+
+function buildEvent(booking: BookingRecord, options: CalendarOptions, stamp: string): string[] | null {
+  if (!booking.date) {
+    return null;
+  }
+
+  const [year, month, day] = booking.date.split('-').map(Number);
+  const start = atTimeOfDay(new Date(year, month - 1, day), booking.time);
+  if (!start) {
+    return null;
+  }
+  const end = new Date(start.getTime() + (options.durationMinutes ?? DEFAULT_DURATION_MINUTES) * 60 * 1000);
+  const waitlisted = booking.status === 'waitlisted';
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${bookingUid(booking)}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `SEQUENCE:${waitlisted ? 0 : 1}`,
+    `DTSTART:${formatLocalDateTime(start)}`,
+    `DTEND:${formatLocalDateTime(end)}`,
+    `SUMMARY:${escapeText(waitlisted ? `${booking.className} (waitlist)` : booking.className)}`,
+    `STATUS:${waitlisted ? 'TENTATIVE' : 'CONFIRMED'}`,
+  ];
+  if (options.location) {
+    lines.push(`LOCATION:${escapeText(options.location)}`);
+  }
+  if (booking.label) {
+    lines.push(`DESCRIPTION:${escapeText(booking.label)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildBookingCalendar(bookings: BookingRecord[], options: CalendarOptions = {}): string {
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  const seen = new Set<string>();
+  for (const booking of bookings) {
+    if (booking.status !== 'reserved' && booking.status !== 'waitlisted') {
+      continue;
+    }
+    const uid = bookingUid(booking);
+    if (seen.has(uid)) {
+      continue;
+    }
+    const event = buildEvent(booking, options, stamp);
+    if (event) {
+      seen.add(uid);
+      lines.push(...event);
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+export function hasCalendarEvents(bookings: BookingRecord[]): boolean {
+  return bookings.some(
+    (booking) => Boolean(booking.date) && (booking.status === 'reserved' || booking.status === 'waitlisted')
+  );
+}
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { FlowContext } from './types';
+import { FlutterPage, SemanticsTreeNode } from './actions';
+import { clickLabel, LabelKey } from './labels';
+import { sessionStateExists } from './auth';
+import { getFlow } from './flows';
+import { runFlow } from './flow-runner';
+import { ensureValidSession } from './run';
+
+export const INSPECT_ROUTES = ['home', 'schedule', 'workouts'] as const;
+export const INSPECT_FORMATS = ['tree', 'json'] as const;
+
+export type InspectRoute = (typeof INSPECT_ROUTES)[number];
+export type InspectFormat = (typeof INSPECT_FORMATS)[number];
+
+export interface SemanticsSnapshot {
+  meta: {
+    tool: string;
+    route: InspectRoute;
+    url: string;
+    capturedAt: string;
+    nodeCount: number;
+  };
+  nodes: SemanticsTreeNode[];
+}
+
+const ROUTE_LABELS: Record<InspectRoute, LabelKey | null> = {
+  home: null,
+  schedule: 'schedule',
+  workouts: 'workouts',
+};
+
+export function parseInspectRoute(value: string | undefined): InspectRoute {
+  const normalized = (value ?? 'home').trim().toLowerCase();
+  if (!(INSPECT_ROUTES as readonly string[]).includes(normalized)) {
+    throw new Error(`Unknown route "${value}". Expected one of: ${INSPECT_ROUTES.join(', ')}.`);
+  }
+  return normalized as InspectRoute;
+}
+
+export function parseInspectFormat(value: string | undefined): InspectFormat {
+  const normalized = (value ?? 'tree').trim().toLowerCase();
+  if (!(INSPECT_FORMATS as readonly string[]).includes(normalized)) {
+    throw new Error(`Unknown format "${value}". Expected one of: ${INSPECT_FORMATS.join(', ')}.`);
+  }
+  return normalized as InspectFormat;
+}
+
+export function parseLabelPattern(input: string): RegExp {
+  const literal = input.match(/^\/(.+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) : new RegExp(input, 'i');
+}
+
+function flattenTree(nodes: SemanticsTreeNode[], depth = 0): { node: SemanticsTreeNode; depth: number }[] {
+  return nodes.flatMap((node) => [{ node, depth }, ...flattenTree(node.children, depth + 1)]);
+}
+
+function formatNode(node: SemanticsTreeNode): string {
+  const role = node.role ? `[${node.role}] ` : '';
+  const label = node.label ? JSON.stringify(node.label) : '(no label)';
+  const box = `@${Math.round(node.x)},${Math.round(node.y)} ${Math.round(node.width)}x${Math.round(node.height)}`;
+  return `${role}${label} ${box}`;
+}
+
+export function formatSemanticsTree(nodes: SemanticsTreeNode[]): string {
+  return flattenTree(nodes)
+    .map(({ node, depth }) => `${'  '.repeat(depth)}- ${formatNode(node)}`)
+    .join('\n');
+}
+
+export function matchSemanticsNodes(nodes: SemanticsTreeNode[], pattern: RegExp): string[] {
+  const matches: string[] = [];
+  const walk = (children: SemanticsTreeNode[], trail: string[]) => {
+    for (const node of children) {
+      const name = node.label || `[${node.role}]`;
+      if (pattern.test(node.label)) {
+        const parents = trail.length > 0 ? `  (in ${trail.join(' > ')})` : '';
+        matches.push(`- ${formatNode(node)}${parents}`);
+      }
+      walk(node.children, [...trail, name.split('\n')[0]]);
+    }
+  };
+  walk(nodes, []);
+  return matches;
+}
+
+export async function openInspectRoute(ctx: FlowContext, route: InspectRoute): Promise<FlutterPage> {
+  if (sessionStateExists(ctx.config)) {
+    await ensureValidSession(ctx, 'inspect');
+  } else {
+    const loginFlow = getFlow('login');
+    if (!loginFlow) {
+      throw new Error('Login flow is not registered.');
+    }
+    ctx.logger.info({ flow: 'login' }, 'No saved session; logging in');
+    await runFlow(loginFlow, ctx);
+  }
+
+  const flutter = FlutterPage.fromContext(ctx);
+  await flutter.page.goto(ctx.config.baseUrl, { waitUntil: 'domcontentloaded' });
+  await flutter.page.waitForTimeout(1000);
+  await flutter.enableSemantics();
+
+  const label = ROUTE_LABELS[route];
+  if (label) {
+    await clickLabel(flutter, ctx, label, route);
+    await flutter.page.waitForTimeout(1500);
+  }
+
+  return flutter;
+}
+
+export async function captureSemanticsSnapshot(flutter: FlutterPage, route: InspectRoute): Promise<SemanticsSnapshot> {
+  const nodes = await flutter.snapshot();
+  return {
+    meta: {
+      tool: 'cfcnx-pushpress-cli',
+      route,
+      url: flutter.page.url(),
+      capturedAt: new Date().toISOString(),
+      nodeCount: flattenTree(nodes).length,
+    },
+    nodes,
+  };
+}
+
+export function renderSemanticsSnapshot(snapshot: SemanticsSnapshot, format: InspectFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(snapshot, null, 2);
+  }
+  const header = `# ${snapshot.meta.route} ${snapshot.meta.url} (${snapshot.meta.nodeCount} nodes)`;
+  return `${header}\n${formatSemanticsTree(snapshot.nodes)}`;
+}
+
+export function writeSemanticsSnapshot(outputPath: string, content: string): string {
+  const resolved = path.resolve(outputPath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.writeFileSync(resolved, `${content}\n`, 'utf-8');
+  return resolved;
+}
+
+export async function runInspectRepl(flutter: FlutterPage): Promise<void> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: 'inspect> ' });
+  console.log('Type a regex (e.g. reserve or /^6:00/i) to list matching nodes, :tree to print the tree, :quit to exit.');
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input === ':quit' || input === ':q' || input === ':exit') {
+      break;
+    }
+
+    try {
+      if (input === ':tree') {
+        console.log(formatSemanticsTree(await flutter.snapshot()));
+      } else if (input) {
+        const matches = matchSemanticsNodes(await flutter.snapshot(), parseLabelPattern(input));
+        console.log(matches.length > 0 ? matches.join('\n') : 'No matching nodes.');
+        console.log(`${matches.length} match${matches.length === 1 ? '' : 'es'}`);
+      }
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : String(error));
+    }
+    rl.prompt();
+  }
+
+  rl.close();
+}
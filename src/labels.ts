@@ -0,0 +1,294 @@
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from 'pino';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { AppConfig } from './types';
+import { escapeRegExp, FlutterPage, SemanticsNode, SemanticsQuery } from './actions';
+
+export const LABEL_KEYS = [
+  'getStarted',
+  'logIn',
+  'emailField',
+  'passwordField',
+  'navigation',
+  'schedule',
+  'workouts',
+  'profile',
+  'reservationsTab',
+  'classFilter',
+  'filter',
+  'showResults',
+  'close',
+  'dismiss',
+  'bookingAction',
+  'reserveSoon',
+  'reserved',
+  'reservedBadge',
+  'checkedIn',
+  'waitlisted',
+  'classFull',
+  'unavailable',
+  'cancelBooking',
+  'leaveWaitlist',
+  'confirmCancel',
+  'defaultWorkoutType',
+  'weekdays',
+  'months',
+] as const;
+
+export type LabelKey = (typeof LABEL_KEYS)[number];
+export type LabelDictionary = Record<LabelKey, string[]>;
+
+export interface LabelMatch {
+  key: LabelKey;
+  synonym: string;
+  primary: boolean;
+}
+
+export interface LabelEntry extends LabelMatch {
+  pattern: RegExp;
+}
+
+export interface LabelContext {
+  config: AppConfig;
+  logger?: Logger;
+}
+
+export const DEFAULT_LABEL_LOCALE = 'en';
+
+const BUILT_IN_LABELS: Record<string, LabelDictionary> = {
+  en: {
+    getStarted: ["Let's get started"],
+    logIn: ['Log in'],
+    emailField: ['Username/Email', 'Email', 'Username'],
+    passwordField: ['Password'],
+    navigation: ['Home', 'Schedule', 'Workouts', 'Social'],
+    schedule: ['Schedule'],
+    workouts: ['Workouts'],
+    profile: ['Profile', 'Account', '/\\bme\\b/i'],
+    reservationsTab: ['My reservations', 'Upcoming', 'My schedule', 'My classes', 'Reservations'],
+    classFilter: ['Class filter', 'Class type'],
+    filter: ['Filter'],
+    showResults: ['/show\\s+\\d+\\s+results/i', 'Show results'],
+    close: ['Close', '/^x$/i'],
+    dismiss: ['Back', 'Close', '/^x$/i', 'Cancel'],
+    bookingAction: ['Reserve', 'Book', 'Sign up', 'Join', 'Register'],
+    reserveSoon: ['Reserve soon'],
+    reserved: ['Reserved', 'Registered', 'Booked', 'Enrolled', 'Attending', 'Confirmed'],
+    reservedBadge: ['Reserved'],
+    checkedIn: ['Checked in', '/check\\s*-?\\s*in/i'],
+    waitlisted: ['Waitlist'],
+    classFull: ['Class full'],
+    unavailable: ['Unavailable'],
+    cancelBooking: ['Cancel reservation', 'Cancel booking', 'Cancel class', 'Withdraw'],
+    leaveWaitlist: ['Leave waitlist', 'Cancel waitlist'],
+    confirmCancel: ['/^yes/i', 'Confirm', 'Cancel reservation', 'Leave waitlist', '/^ok$/i'],
+    defaultWorkoutType: ['CrossFit'],
+    weekdays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    months: [
+      'January',
+      'February',
+      'March',
+      'April',
+      'May',
+      'June',
+      'July',
+      'August',
+      'September',
+      'October',
+      'November',
+      'December',
+    ],
+  },
+};
+
+const SynonymsSchema = z.array(z.string().trim().min(1)).min(1);
+const LabelOverridesSchema = z.record(z.enum(LABEL_KEYS), SynonymsSchema);
+
+const LabelFileSchema = z
+  .object({
+    locales: z.record(z.string().trim().min(1), LabelOverridesSchema).default({}),
+    labels: LabelOverridesSchema.default({}),
+  })
+  .strict();
+
+const FIXED_LENGTH_KEYS: Partial<Record<LabelKey, number>> = { weekdays: 7, months: 12 };
+
+const dictionaries = new Map<string, LabelDictionary>();
+const patterns = new Map<string, RegExp>();
+const loggedMatches = new Set<string>();
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function readLabelFile(filePath: string): z.infer<typeof LabelFileSchema> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Label dictionary not found: ${resolved}`);
+  }
+
+  const raw = fs.readFileSync(resolved, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse label dictionary ${resolved}: ${message}`);
+  }
+
+  const result = LabelFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid label dictionary ${resolved}: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+export function loadLabels(config: AppConfig): LabelDictionary {
+  const { locale, path: filePath } = config.labels;
+  const cacheKey = `${locale}\u0000${filePath}`;
+  const cached = dictionaries.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const file = filePath ? readLabelFile(filePath) : { locales: {}, labels: {} };
+  const builtIn = BUILT_IN_LABELS[locale];
+  if (!builtIn && !file.locales[locale]) {
+    throw new Error(
+      `Unknown label locale "${locale}". Built-in locales: ${Object.keys(BUILT_IN_LABELS).join(', ')}. `
+        + 'Define it under "locales" in PUSHPRESS_LABELS_PATH.'
+    );
+  }
+
+  const dictionary: LabelDictionary = {
+    ...BUILT_IN_LABELS[DEFAULT_LABEL_LOCALE],
+    ...builtIn,
+    ...file.locales[locale],
+    ...file.labels,
+  };
+  for (const [key, synonyms] of Object.entries(dictionary)) {
+    const length = FIXED_LENGTH_KEYS[key as LabelKey];
+    if (length && synonyms.length !== length) {
+      throw new Error(`Label key "${key}" needs exactly ${length} entries in order; got ${synonyms.length}.`);
+    }
+    synonyms.forEach((synonym) => synonymPattern(synonym, `${key} (${synonym})`));
+  }
+  dictionaries.set(cacheKey, dictionary);
+  return dictionary;
+}
+
+function synonymPattern(synonym: string, source = synonym): RegExp {
+  const cached = patterns.get(synonym);
+  if (cached) {
+    return cached;
+  }
+
+  let pattern: RegExp;
+  const literal = synonym.match(/^\/(.+)\/([a-z]*)$/);
+  if (literal) {
+    const unsupported = literal[2].replace(/i/g, '');
+    if (unsupported) {
+      throw new Error(`Invalid label pattern ${source}: flag "${unsupported}" is not supported; labels only use "i".`);
+    }
+    try {
+      pattern = new RegExp(literal[1], 'i');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid label pattern ${source}: ${message}`);
+    }
+  } else {
+    const words = synonym.trim().split(/\s+/).map((word) => escapeRegExp(word).replace(/['’]/g, "['’]"));
+    pattern = new RegExp(words.join('\\s+'), 'i');
+  }
+
+  patterns.set(synonym, pattern);
+  return pattern;
+}
+
+function toKeys(keys: LabelKey | LabelKey[]): LabelKey[] {
+  return Array.isArray(keys) ? keys : [keys];
+}
+
+export function labelEntries(config: AppConfig, keys: LabelKey | LabelKey[]): LabelEntry[] {
+  const dictionary = loadLabels(config);
+  return toKeys(keys).flatMap((key) =>
+    dictionary[key].map((synonym, index) => ({ key, synonym, primary: index === 0, pattern: synonymPattern(synonym) }))
+  );
+}
+
+export function labelPatterns(config: AppConfig, keys: LabelKey | LabelKey[]): RegExp[] {
+  return labelEntries(config, keys).map((entry) => entry.pattern);
+}
+
+export function labelPattern(config: AppConfig, keys: LabelKey | LabelKey[]): RegExp {
+  const sources = labelPatterns(config, keys).map((pattern) => `(?:${pattern.source})`);
+  return new RegExp(sources.join('|'), 'i');
+}
+
+export function matchLabel(config: AppConfig, keys: LabelKey | LabelKey[], text: string): LabelMatch | null {
+  const entry = labelEntries(config, keys).find((candidate) => candidate.pattern.test(text));
+  return entry ? { key: entry.key, synonym: entry.synonym, primary: entry.primary } : null;
+}
+
+export function logLabelMatch(logger: Logger | undefined, match: LabelMatch | null, text?: string): void {
+  if (!logger || !match) {
+    return;
+  }
+  const id = `${match.key}\u0000${match.synonym}`;
+  if (loggedMatches.has(id)) {
+    return;
+  }
+  loggedMatches.add(id);
+  logger.debug({ labelKey: match.key, synonym: match.synonym, primary: match.primary, text }, 'Label synonym matched');
+}
+
+export async function findLabel(
+  flutter: FlutterPage,
+  ctx: LabelContext,
+  keys: LabelKey | LabelKey[],
+  query: Omit<SemanticsQuery, 'label'> = {}
+): Promise<SemanticsNode | null> {
+  for (const entry of labelEntries(ctx.config, keys)) {
+    const node = await flutter.find({ ...query, label: entry.pattern });
+    if (node) {
+      logLabelMatch(ctx.logger, entry, node.label);
+      return node;
+    }
+  }
+  return null;
+}
+
+export async function hasLabel(flutter: FlutterPage, ctx: LabelContext, keys: LabelKey | LabelKey[]): Promise<boolean> {
+  const node = await findLabel(flutter, ctx, keys).catch(() => null);
+  return node !== null;
+}
+
+export async function tryClickLabel(
+  flutter: FlutterPage,
+  ctx: LabelContext,
+  keys: LabelKey | LabelKey[],
+  labelName: string
+): Promise<boolean> {
+  for (const entry of labelEntries(ctx.config, keys)) {
+    if (await flutter.tryClickByLabel(entry.pattern, labelName)) {
+      logLabelMatch(ctx.logger, entry);
+      return true;
+    }
+  }
+  return false;
+}
+
+export async function clickLabel(
+  flutter: FlutterPage,
+  ctx: LabelContext,
+  keys: LabelKey | LabelKey[],
+  labelName: string
+): Promise<void> {
+  if (!(await tryClickLabel(flutter, ctx, keys, labelName))) {
+    throw new Error(`Failed to click ${labelName}.`);
+  }
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import type { Logger } from 'pino';
+import type { AppConfig, SummaryProviderName } from './types';
+
+export interface SummaryProvider {
+  name: SummaryProviderName;
+  model: string;
+  complete(prompt: string): Promise<string>;
+}
+
+interface OpenAIProviderOptions {
+  name: SummaryProviderName;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  baseUrl?: string;
+}
+
+interface CachedResponse {
+  provider: SummaryProviderName;
+  model: string;
+  promptHash: string;
+  createdAt: string;
+  content: string;
+}
+
+const COMPATIBLE_PLACEHOLDER_KEY = 'not-needed';
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): SummaryProvider {
+  return {
+    name: options.name,
+    model: options.model,
+    async complete(prompt) {
+      if (!options.apiKey) {
+        throw new Error('Missing OPENAI_API_KEY.');
+      }
+
+      const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl || undefined });
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+      });
+
+      const content = response.choices[0]?.message?.content?.trim();
+      if (!content) {
+        throw new Error(`${options.name} response was empty.`);
+      }
+      return content;
+    },
+  };
+}
+
+export function createFixtureProvider(fixturePath: string): SummaryProvider {
+  const resolved = path.resolve(fixturePath);
+
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async complete(prompt) {
+      if (!fs.existsSync(resolved)) {
+        throw new Error(`Summary fixture not found: ${resolved}`);
+      }
+
+      if (!fs.statSync(resolved).isDirectory()) {
+        return fs.readFileSync(resolved, 'utf-8').trim();
+      }
+
+      const promptHash = hashPrompt(prompt);
+      const filePath = path.join(resolved, `${promptHash}.md`);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`No summary fixture for prompt ${promptHash} in ${resolved}`);
+      }
+      return fs.readFileSync(filePath, 'utf-8').trim();
+    },
+  };
+}
+
+function summaryApiKey(config: AppConfig): string {
+  return config.secrets.get('SUMMARY_API_KEY') || config.secrets.get('OPENAI_API_KEY');
+}
+
+export function createSummaryProvider(config: AppConfig): SummaryProvider {
+  const settings = config.summaryProvider;
+
+  switch (settings.provider) {
+    case 'fixture':
+      return createFixtureProvider(settings.fixturePath);
+    case 'openai-compatible':
+      if (!settings.baseUrl) {
+        throw new Error('SUMMARY_BASE_URL is required for the openai-compatible summary provider.');
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        apiKey: summaryApiKey(config) || COMPATIBLE_PLACEHOLDER_KEY,
+        model: settings.model,
+        temperature: settings.temperature,
+        baseUrl: settings.baseUrl,
+      });
+    default:
+      return createOpenAIProvider({
+        name: 'openai',
+        apiKey: summaryApiKey(config),
+        model: settings.model,
+        temperature: settings.temperature,
+      });
+  }
+}
+
+export function withResponseCache(
+  provider: SummaryProvider,
+  cacheDir: string,
+  logger: Logger
+): SummaryProvider {
+  const resolvedDir = path.resolve(cacheDir);
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(prompt) {
+      const promptHash = hashPrompt(prompt);
+      const cacheKey = hashPrompt(`${provider.name}\n${provider.model}\n${promptHash}`);
+      const cachePath = path.join(resolvedDir, `${cacheKey}.json`);
+
+      if (fs.existsSync(cachePath)) {
+        try {
+          const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CachedResponse;
+          if (cached.content) {
+            logger.info({ provider: provider.name, promptHash, cachePath }, 'Using cached summary response');
+            return cached.content;
+          }
+        } catch (error) {
+          logger.debug({ err: error, cachePath }, 'Ignoring unreadable summary cache entry');
+        }
+      }
+
+      const content = await provider.complete(prompt);
+      const entry: CachedResponse = {
+        provider: provider.name,
+        model: provider.model,
+        promptHash,
+        createdAt: new Date().toISOString(),
+        content,
+      };
+      fs.mkdirSync(resolvedDir, { recursive: true });
+      fs.writeFileSync(cachePath, JSON.stringify(entry, null, 2), 'utf-8');
+      return content;
+    },
+  };
+}
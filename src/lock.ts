@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from 'pino';
+import { AppConfig } from './types';
+
+interface LockInfo {
+  pid: number;
+  label: string;
+  acquiredAt: string;
+}
+
+export type ReleaseLock = () => void;
+
+export function sessionLockPath(config: AppConfig): string {
+  return `${config.sessionStatePath}.lock`;
+}
+
+function readLock(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function acquireSessionLock(config: AppConfig, logger: Logger, label: string): ReleaseLock {
+  const lockPath = sessionLockPath(config);
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const info: LockInfo = { pid: process.pid, label, acquiredAt: new Date().toISOString() };
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: 'wx' });
+      logger.debug({ lockPath, label }, 'Session lock acquired');
+      return () => {
+        const current = readLock(lockPath);
+        if (current?.pid === process.pid) {
+          fs.rmSync(lockPath, { force: true });
+          logger.debug({ lockPath, label }, 'Session lock released');
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const holder = readLock(lockPath);
+    if (holder && isProcessAlive(holder.pid)) {
+      throw new Error(
+        `Session is locked by "${holder.label}" (pid ${holder.pid}, since ${holder.acquiredAt}). Lock file: ${lockPath}`
+      );
+    }
+    logger.warn({ lockPath, holder }, 'Removing stale session lock');
+    fs.rmSync(lockPath, { force: true });
+  }
+
+  throw new Error(`Could not acquire session lock: ${lockPath}`);
+}
+
+export async function withSessionLock<T>(
+  config: AppConfig,
+  logger: Logger,
+  label: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const release = acquireSessionLock(config, logger, label);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
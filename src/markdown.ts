@@ -0,0 +1,171 @@
+import type { Logger } from 'pino';
+import type { AppConfig, SummaryRenderer } from './types';
+import type { WorkoutDaySummary, WorkoutSummaryItem } from './summary';
+import { escapeRegExp } from './actions';
+import { generateWorkoutWeekMarkdown } from './openai';
+
+interface SummaryEnvelope {
+  data: {
+    summaryByDay: Record<string, WorkoutDaySummary>;
+  };
+}
+
+const DAYS = [
+  { key: 'sun', label: 'Sun' },
+  { key: 'mon', label: 'Mon' },
+  { key: 'tue', label: 'Tue' },
+  { key: 'wed', label: 'Wed' },
+  { key: 'thu', label: 'Thu' },
+  { key: 'fri', label: 'Fri' },
+  { key: 'sat', label: 'Sat' },
+];
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const EXCLUDED_TITLES = ['warm-up', 'warm-up flow', 'mobility'];
+const LEVEL_MARKERS = ['Level 2:', 'Level 1:', 'Masters', 'Competitor:', 'Travel / Hotel:'];
+const LINE_BREAK_KEYWORDS = [
+  'For Time',
+  'AMRAP',
+  'EMOM',
+  'Minute',
+  'Set',
+  'Every',
+  'Score',
+  'Barbell',
+  'Dumbbells',
+  'Box',
+  'Wall Ball',
+  'Row',
+  'Push-Ups',
+  'Sit-Ups',
+];
+const LINE_BREAK = '  \n';
+
+type SectionName = 'Strength' | 'Weightlifting' | 'Conditioning' | 'Optional Accessories';
+
+function isExcluded(item: WorkoutSummaryItem): boolean {
+  const title = item.title ?? '';
+  const normalized = title.toLowerCase();
+  if (EXCLUDED_TITLES.some((excluded) => normalized.includes(excluded))) {
+    return true;
+  }
+  if (title.includes('Levels') || title === 'CrossFit') {
+    return true;
+  }
+  return !item.description;
+}
+
+function isQuoted(title: string): boolean {
+  return /^["“].*["”]$/.test(title);
+}
+
+function classifySection(title: string): SectionName {
+  if (title === 'Strength' || title === 'Strength:') {
+    return 'Strength';
+  }
+  if (title === 'Weightlifting') {
+    return 'Weightlifting';
+  }
+  if (isQuoted(title)) {
+    return 'Conditioning';
+  }
+  if (title.startsWith('Optional Accessories')) {
+    return 'Optional Accessories';
+  }
+  return 'Conditioning';
+}
+
+function stripLevels(description: string): string {
+  let cut = description.length;
+  for (const marker of LEVEL_MARKERS) {
+    const index = description.indexOf(marker);
+    if (index >= 0 && index < cut) {
+      cut = index;
+    }
+  }
+  return description.slice(0, cut).trim();
+}
+
+export function formatDescription(description: string): string[] {
+  let text = stripLevels(description)
+    .replace(/@ /g, 'at ')
+    .replace(/(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*(lbs?|kg|pood|cal|in)\b/gi, '$1 or $2 $3')
+    .replace(/(\S?)\s*\+\s*(\S?)/g, (match, before: string, after: string) =>
+      /\d/.test(before) && /\d/.test(after) ? match : `${before} plus ${after}`
+    )
+    .replace(/[ \t]+/g, ' ');
+
+  const keywords = LINE_BREAK_KEYWORDS.map(escapeRegExp).join('|');
+  text = text.replace(new RegExp(`(?<!^)(?<!\\d\\s?)\\s*\\b(${keywords})`, 'g'), '\n$1');
+
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function weekHeading(summaryByDay: Record<string, WorkoutDaySummary>): string {
+  for (const [index, day] of DAYS.entries()) {
+    const date = summaryByDay[day.key]?.date;
+    if (!date) {
+      continue;
+    }
+    const [year, month, dayOfMonth] = date.split('-').map(Number);
+    const start = new Date(Date.UTC(year, month - 1, dayOfMonth - index));
+    return `# WEEK ${MONTHS[start.getUTCMonth()]} ${start.getUTCDate()} ${start.getUTCFullYear()}`;
+  }
+  return '# WEEK';
+}
+
+export function renderWorkoutWeekMarkdown(summaryByDay: Record<string, WorkoutDaySummary>): string {
+  const blocks: string[] = [weekHeading(summaryByDay)];
+
+  for (const day of DAYS) {
+    blocks.push(`## ${day.label}`);
+
+    for (const item of summaryByDay[day.key]?.items ?? []) {
+      if (isExcluded(item)) {
+        continue;
+      }
+      const title = item.title ?? '';
+      const heading = item.workoutTitle || title.replace(/^["“]|["”]$/g, '').trim();
+      const lines = [heading, ...formatDescription(item.description ?? '')].filter(Boolean);
+      blocks.push(`### ${classifySection(title)}\n${lines.join(LINE_BREAK)}`);
+    }
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+export async function generateSummaryMarkdown(
+  config: AppConfig,
+  summaryEnvelope: SummaryEnvelope,
+  logger: Logger,
+  renderer: SummaryRenderer = config.summaryRenderer
+): Promise<{ markdown: string; renderer: SummaryRenderer }> {
+  if (renderer === 'openai') {
+    try {
+      const markdown = await generateWorkoutWeekMarkdown(config, summaryEnvelope, logger);
+      return { markdown, renderer };
+    } catch (error) {
+      logger.warn({ err: error }, 'Summary provider failed; falling back to local renderer');
+    }
+  }
+
+  return {
+    markdown: renderWorkoutWeekMarkdown(summaryEnvelope.data.summaryByDay),
+    renderer: 'local',
+  };
+}
@@ -0,0 +1,617 @@
+const APP_STYLE = `
+html, body { margin: 0; height: 100%; overflow: hidden; background: #f4f5f7; font-family: system-ui, sans-serif; }
+flt-glass-pane { position: fixed; left: 0; bottom: 0; }
+flt-semantics-host { position: fixed; inset: 0; }
+flt-semantics {
+  position: absolute; box-sizing: border-box; display: flex; align-items: center; padding: 0 12px;
+  font-size: 14px; line-height: 1.25; white-space: pre-line; overflow: hidden; color: #1d1d1f;
+}
+flt-semantics[role="button"] { background: #fff; border: 1px solid #d0d4da; border-radius: 8px; cursor: pointer; }
+flt-semantics[role="button"][aria-pressed="true"] { background: #1d1d1f; color: #fff; }
+flt-semantics[role="textbox"] { background: #fff; border: 1px solid #9aa1ab; border-radius: 6px; cursor: text; }
+flt-semantics.heading { font-size: 22px; font-weight: 600; }
+flt-semantics.title { font-weight: 600; }
+flt-semantics.badge { justify-content: center; background: #dff5e3; border-radius: 16px; }
+flt-semantics.menu { z-index: 2; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.2); }
+flt-text-editing-host input { position: absolute; opacity: 0; border: 0; padding: 0; }
+`;
+
+const APP_SCRIPT = `
+(function () {
+  var TOKEN_KEY = 'authToken';
+  var DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  var MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September',
+    'October', 'November', 'December'];
+  var NAV = [['Home', 'home'], ['Schedule', 'schedule'], ['Workouts', 'workouts'], ['Social', 'social']];
+  var CATEGORIES = ['Classes', 'Appointments', 'Events'];
+  var SLOT_FIELDS = '{ id classId name date startTime endTime durationMinutes coach capacity booked status }';
+  var QUERIES = {
+    login: 'mutation login($email: String!, $password: String!) '
+      + '{ login(email: $email, password: $password) { token member { id name } } }',
+    workoutTypes: 'query workoutTypes { workoutTypes }',
+    workoutOfDay: 'query workoutOfDay($date: String!, $workoutType: String) '
+      + '{ workoutOfDay(date: $date, workoutType: $workoutType) '
+      + '{ id title description workoutTitle rawPublishingDate } }',
+    classTypes: 'query classTypes { classTypes }',
+    classSchedule: 'query classSchedule($date: String!) { classSchedule(date: $date) ' + SLOT_FIELDS + ' }',
+    reserveClass: 'mutation reserveClass($id: ID!) { reserveClass(id: $id) ' + SLOT_FIELDS + ' }',
+    cancelReservation: 'mutation cancelReservation($id: ID!) { cancelReservation(id: $id) ' + SLOT_FIELDS + ' }'
+  };
+
+  var host = document.querySelector('flt-semantics-host');
+  var glass = document.querySelector('flt-glass-pane');
+  var editingHost = null;
+  var fieldNodes = {};
+  var requests = { schedule: 0, workouts: 0 };
+  var state = {
+    semantics: false,
+    screen: readToken() ? 'home' : 'landing',
+    email: '',
+    password: '',
+    error: '',
+    date: today(),
+    category: 'Classes',
+    classTypes: [],
+    classes: [],
+    filter: [],
+    pendingFilter: [],
+    filterOpen: false,
+    scroll: 0,
+    detail: null,
+    workoutTypes: [],
+    workoutType: '',
+    menuOpen: false,
+    workouts: []
+  };
+
+  function pad(value) {
+    return (value < 10 ? '0' : '') + value;
+  }
+
+  function today() {
+    var now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  function isoDate(date) {
+    return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+  }
+
+  function parseIsoDate(value) {
+    var parts = value.split('-').map(Number);
+    return new Date(parts[0], parts[1] - 1, parts[2]);
+  }
+
+  function longDate(date) {
+    return DAY_NAMES[date.getDay()] + ', ' + MONTH_NAMES[date.getMonth()] + ' ' + date.getDate();
+  }
+
+  function weekOf(date) {
+    var days = [];
+    for (var i = 0; i < 7; i += 1) {
+      days.push(new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay() + i));
+    }
+    return days;
+  }
+
+  function readToken() {
+    var token = localStorage.getItem(TOKEN_KEY);
+    if (!token) {
+      return null;
+    }
+    try {
+      var payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      if (typeof payload.exp === 'number' && payload.exp * 1000 > Date.now()) {
+        return token;
+      }
+    } catch (error) {
+      // fall through and drop the token
+    }
+    localStorage.removeItem(TOKEN_KEY);
+    return null;
+  }
+
+  function gql(operationName, variables) {
+    var headers = { 'content-type': 'application/json' };
+    var token = readToken();
+    if (token) {
+      headers.authorization = 'Bearer ' + token;
+    }
+    return fetch('/graphql', {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify({ operationName: operationName, query: QUERIES[operationName], variables: variables || {} })
+    })
+      .then(function (response) {
+        if (response.status === 401) {
+          localStorage.removeItem(TOKEN_KEY);
+          show('landing');
+          throw new Error('Session expired');
+        }
+        return response.json();
+      })
+      .then(function (body) {
+        if (body.errors && body.errors.length > 0) {
+          throw new Error(body.errors[0].message);
+        }
+        return body.data;
+      });
+  }
+
+  function node(label, box, options) {
+    var opts = options || {};
+    var el = document.createElement('flt-semantics');
+    el.setAttribute('aria-label', label);
+    if (opts.role) {
+      el.setAttribute('role', opts.role);
+    }
+    if (opts.pressed !== undefined) {
+      el.setAttribute('aria-pressed', opts.pressed ? 'true' : 'false');
+    }
+    if (opts.className) {
+      el.className = opts.className;
+    }
+    el.style.left = box[0] + 'px';
+    el.style.top = box[1] + 'px';
+    el.style.width = box[2] + 'px';
+    el.style.height = box[3] + 'px';
+    el.textContent = opts.text !== undefined ? opts.text : label;
+    if (opts.onClick) {
+      el.addEventListener('click', function (event) {
+        event.stopPropagation();
+        opts.onClick();
+      });
+    }
+    host.appendChild(el);
+    return el;
+  }
+
+  function button(label, box, onClick, options) {
+    var opts = options || {};
+    opts.role = 'button';
+    opts.onClick = onClick;
+    return node(label, box, opts);
+  }
+
+  function show(screen) {
+    state.screen = screen;
+    state.detail = null;
+    state.filterOpen = false;
+    state.menuOpen = false;
+    state.scroll = 0;
+    if (screen !== 'login' && editingHost) {
+      editingHost.remove();
+      editingHost = null;
+    }
+    render();
+    if (screen === 'schedule') {
+      loadSchedule();
+    }
+    if (screen === 'workouts') {
+      loadWorkouts();
+    }
+  }
+
+  function focusField(name, box) {
+    if (!editingHost) {
+      editingHost = document.createElement('flt-text-editing-host');
+      document.body.appendChild(editingHost);
+    }
+    editingHost.textContent = '';
+    var input = document.createElement('input');
+    input.type = name === 'password' ? 'password' : 'text';
+    input.value = state[name];
+    input.style.left = box[0] + 'px';
+    input.style.top = box[1] + 'px';
+    input.style.width = box[2] + 'px';
+    input.style.height = box[3] + 'px';
+    input.addEventListener('input', function () {
+      state[name] = input.value;
+      updateField(name);
+    });
+    input.addEventListener('keydown', function (event) {
+      if (event.key === 'Enter') {
+        submitLogin();
+      }
+    });
+    editingHost.appendChild(input);
+    input.focus();
+  }
+
+  function fieldText(name, label) {
+    var value = state[name];
+    if (!value) {
+      return label;
+    }
+    return name === 'password' ? value.replace(/./g, '\\u2022') : value;
+  }
+
+  function updateField(name) {
+    var el = fieldNodes[name];
+    if (el) {
+      el.textContent = fieldText(name, el.getAttribute('aria-label'));
+    }
+  }
+
+  function textField(label, name, box) {
+    fieldNodes[name] = node(label, box, {
+      role: 'textbox',
+      text: fieldText(name, label),
+      onClick: function () {
+        focusField(name, box);
+      }
+    });
+  }
+
+  function submitLogin() {
+    state.error = '';
+    gql('login', { email: state.email, password: state.password })
+      .then(function (data) {
+        localStorage.setItem(TOKEN_KEY, data.login.token);
+        state.email = '';
+        state.password = '';
+        show('home');
+      })
+      .catch(function (error) {
+        state.error = error.message;
+        render();
+      });
+  }
+
+  function loadSchedule() {
+    var request = requests.schedule += 1;
+    if (state.classTypes.length === 0) {
+      gql('classTypes').then(function (data) {
+        state.classTypes = data.classTypes;
+      }).catch(function () {});
+    }
+    gql('classSchedule', { date: isoDate(state.date) })
+      .then(function (data) {
+        if (request === requests.schedule) {
+          state.classes = data.classSchedule;
+          render();
+        }
+      })
+      .catch(function () {});
+  }
+
+  function loadWorkouts() {
+    var request = requests.workouts += 1;
+    var ready = state.workoutType
+      ? Promise.resolve()
+      : gql('workoutTypes').then(function (data) {
+        state.workoutTypes = data.workoutTypes;
+        state.workoutType = data.workoutTypes[0] || '';
+      });
+    ready
+      .then(function () {
+        return gql('workoutOfDay', { date: isoDate(state.date), workoutType: state.workoutType });
+      })
+      .then(function (data) {
+        if (request === requests.workouts) {
+          state.workouts = data.workoutOfDay;
+          render();
+        }
+      })
+      .catch(function () {});
+  }
+
+  function visibleClasses(filter) {
+    if (filter.length === 0) {
+      return state.classes;
+    }
+    return state.classes.filter(function (slot) {
+      return filter.indexOf(slot.name) >= 0;
+    });
+  }
+
+  function updateDetail(operationName) {
+    var id = state.detail.id;
+    gql(operationName, { id: id })
+      .then(function (data) {
+        if (state.detail && state.detail.id === id) {
+          state.detail = data[operationName];
+          render();
+        }
+      })
+      .catch(function (error) {
+        state.error = error.message;
+        render();
+      });
+  }
+
+  function closeDetails() {
+    state.detail = null;
+    state.error = '';
+    render();
+    loadSchedule();
+  }
+
+  function renderDayRow(width, top, onSelect) {
+    var size = 64;
+    var gap = 12;
+    var left = Math.max(24, Math.round((width - (7 * size + 6 * gap)) / 2));
+    weekOf(state.date).forEach(function (day, index) {
+      var label = DAY_NAMES[index].slice(0, 3) + ' ' + day.getDate();
+      button(label, [left + index * (size + gap), top, size, 56], function () {
+        state.date = day;
+        state.scroll = 0;
+        render();
+        onSelect();
+      }, { pressed: isoDate(day) === isoDate(state.date), text: DAY_NAMES[index].slice(0, 3) + '\\n' + day.getDate() });
+    });
+  }
+
+  function renderNav(width, height) {
+    var itemWidth = Math.floor(width / NAV.length);
+    NAV.forEach(function (item, index) {
+      button(item[0], [index * itemWidth, height - 64, itemWidth, 64], function () {
+        show(item[1]);
+      }, { pressed: state.screen === item[1] });
+    });
+  }
+
+  function renderLanding(width, height) {
+    node('PushPress', [Math.round(width / 2) - 200, 160, 400, 48], { className: 'heading' });
+    button("Let's get started", [Math.round(width / 2) - 160, height - 120, 320, 52], function () {
+      show('login');
+    });
+  }
+
+  function renderLogin(width) {
+    var left = Math.round(width / 2) - 200;
+    textField('Username/email', 'email', [left, 200, 400, 56]);
+    textField('Password', 'password', [left, 280, 400, 56]);
+    if (state.error) {
+      node(state.error, [left, 344, 400, 28]);
+    }
+    button('Log in', [left, 388, 400, 52], submitLogin);
+  }
+
+  function renderHome() {
+    node('Welcome back', [24, 24, 400, 40], { className: 'heading' });
+    node('Pick a class from the schedule or check the workout of the day.', [24, 72, 600, 28]);
+  }
+
+  function renderSocial() {
+    node('Social', [24, 24, 400, 40], { className: 'heading' });
+    node('No posts yet', [24, 72, 400, 28]);
+  }
+
+  function renderFilter(width, height) {
+    node('Class type', [24, 24, 240, 40], { className: 'heading' });
+    button('Close', [width - 120, 24, 96, 40], function () {
+      state.filterOpen = false;
+      render();
+    });
+    state.classTypes.forEach(function (name, index) {
+      var selected = state.pendingFilter.indexOf(name) >= 0;
+      button(name, [24, 88 + index * 56, 320, 44], function () {
+        state.pendingFilter = selected
+          ? state.pendingFilter.filter(function (entry) { return entry !== name; })
+          : state.pendingFilter.concat([name]);
+        render();
+      }, { pressed: selected });
+    });
+    var count = visibleClasses(state.pendingFilter).length;
+    button('Show ' + count + ' results', [24, height - 88, width - 48, 52], function () {
+      state.filter = state.pendingFilter.slice();
+      state.filterOpen = false;
+      state.scroll = 0;
+      render();
+    });
+  }
+
+  function renderSchedule(width, height) {
+    if (state.filterOpen) {
+      renderFilter(width, height);
+      return;
+    }
+
+    CATEGORIES.forEach(function (name, index) {
+      button(name, [24 + index * 150, 16, 140, 40], function () {
+        state.category = name;
+        render();
+      }, { pressed: state.category === name });
+    });
+    node(longDate(state.date), [24, 72, 360, 32], { className: 'title' });
+    button('Class filter', [width - 164, 68, 140, 40], function () {
+      state.pendingFilter = state.filter.slice();
+      state.filterOpen = true;
+      render();
+    });
+    renderDayRow(width, 120, loadSchedule);
+
+    if (state.category !== 'Classes') {
+      node('Nothing scheduled', [24, 200, 400, 32]);
+      return;
+    }
+
+    var slots = visibleClasses(state.filter);
+    if (slots.length === 0) {
+      node('No classes scheduled', [24, 200, 400, 32]);
+      return;
+    }
+
+    slots.forEach(function (slot, index) {
+      var top = 200 + index * 72 - state.scroll;
+      if (top < 190 || top + 60 > height - 72) {
+        return;
+      }
+      var length = slot.durationMinutes + ' min' + (slot.coach ? ' with ' + slot.coach : '');
+      var lines = [slot.startTime, slot.name, length];
+      if (slot.status === 'reserve-soon') {
+        lines.push('Reserve soon');
+      }
+      button(lines.join('\\n'), [24, top, width - 248, 60], function () {
+        state.detail = slot;
+        state.error = '';
+        render();
+      });
+      if (slot.status === 'reserved') {
+        node('Reserved', [width - 200, top + 14, 140, 32], { className: 'badge' });
+      } else if (slot.status === 'waitlisted') {
+        node('Waitlisted', [width - 200, top + 14, 140, 32], { className: 'badge' });
+      } else if (slot.status === 'full') {
+        node('Full', [width - 200, top + 14, 140, 32], { className: 'badge' });
+      }
+    });
+  }
+
+  function renderDetails() {
+    var slot = state.detail;
+    var spotsLeft = Math.max(0, slot.capacity - slot.booked);
+    button('Back', [16, 16, 96, 40], closeDetails);
+    node(slot.name, [24, 80, 480, 36], { className: 'heading' });
+    node(slot.startTime + ' - ' + slot.endTime, [24, 124, 320, 28]);
+    node(longDate(parseIsoDate(slot.date)), [24, 156, 320, 28]);
+    if (slot.coach) {
+      node('Coach ' + slot.coach, [24, 188, 320, 28]);
+    }
+    node(spotsLeft + ' of ' + slot.capacity + ' spots left', [24, 220, 320, 28]);
+    if (state.error) {
+      node(state.error, [24, 344, 480, 28]);
+    }
+
+    if (slot.status === 'reserved') {
+      node('Reserved', [24, 260, 140, 32], { className: 'badge' });
+      button('Cancel reservation', [24, 300, 320, 44], function () { updateDetail('cancelReservation'); });
+    } else if (slot.status === 'waitlisted') {
+      node('On the waitlist', [24, 260, 180, 32], { className: 'badge' });
+      button('Leave waitlist', [24, 300, 320, 44], function () { updateDetail('cancelReservation'); });
+    } else if (slot.status === 'full') {
+      node('Class full', [24, 260, 140, 32], { className: 'badge' });
+      button('Join waitlist', [24, 300, 320, 44], function () { updateDetail('reserveClass'); });
+    } else if (slot.status === 'reserve-soon') {
+      node('Reserve soon', [24, 260, 180, 32], { className: 'badge' });
+    } else {
+      button('Reserve', [24, 276, 320, 52], function () { updateDetail('reserveClass'); });
+    }
+  }
+
+  function renderWorkouts(width) {
+    node('Workouts', [24, 16, 200, 40], { className: 'heading' });
+    if (state.workoutType) {
+      button(state.workoutType, [width - 204, 16, 180, 40], function () {
+        state.menuOpen = !state.menuOpen;
+        render();
+      });
+    }
+    renderDayRow(width, 80, loadWorkouts);
+
+    var top = 170;
+    if (state.workouts.length === 0) {
+      node('No workouts posted', [24, top, 400, 32]);
+    }
+    state.workouts.forEach(function (item) {
+      node(item.title, [24, top, width - 48, 28], { className: 'title' });
+      top += 32;
+      if (item.description) {
+        var height = Math.max(1, Math.ceil(item.description.length / 100)) * 20;
+        node(item.description, [24, top, width - 48, height]);
+        top += height + 16;
+      }
+    });
+
+    if (state.menuOpen) {
+      state.workoutTypes.forEach(function (type, index) {
+        button(type, [width - 204, 64 + index * 44, 180, 40], function () {
+          state.workoutType = type;
+          state.menuOpen = false;
+          render();
+          loadWorkouts();
+        }, { className: 'menu', pressed: type === state.workoutType });
+      });
+    }
+  }
+
+  function render() {
+    host.textContent = '';
+    fieldNodes = {};
+    if (!state.semantics) {
+      return;
+    }
+
+    var width = window.innerWidth;
+    var height = window.innerHeight;
+    if (state.screen === 'landing') {
+      renderLanding(width, height);
+      return;
+    }
+    if (state.screen === 'login') {
+      renderLogin(width);
+      return;
+    }
+    if (state.screen === 'schedule' && state.detail) {
+      renderDetails();
+      return;
+    }
+
+    if (state.screen === 'schedule') {
+      renderSchedule(width, height);
+      if (state.filterOpen) {
+        return;
+      }
+    } else if (state.screen === 'workouts') {
+      renderWorkouts(width);
+    } else if (state.screen === 'social') {
+      renderSocial();
+    } else {
+      renderHome();
+    }
+    renderNav(width, height);
+  }
+
+  var placeholder = document.createElement('flt-semantics-placeholder');
+  placeholder.setAttribute('role', 'button');
+  placeholder.setAttribute('aria-label', 'Enable accessibility');
+  placeholder.textContent = 'Enable accessibility';
+  placeholder.addEventListener('click', function () {
+    state.semantics = true;
+    placeholder.remove();
+    render();
+  });
+  glass.attachShadow({ mode: 'open' }).appendChild(placeholder);
+
+  window.addEventListener('wheel', function (event) {
+    if (state.screen !== 'schedule' || state.detail || state.filterOpen) {
+      return;
+    }
+    var maxScroll = Math.max(0, visibleClasses(state.filter).length * 72 - (window.innerHeight - 272));
+    state.scroll = Math.min(maxScroll, Math.max(0, state.scroll + event.deltaY));
+    render();
+  });
+
+  document.addEventListener('keydown', function (event) {
+    if (event.key !== 'Escape') {
+      return;
+    }
+    if (state.filterOpen || state.menuOpen) {
+      state.filterOpen = false;
+      state.menuOpen = false;
+      render();
+    } else if (state.detail) {
+      closeDetails();
+    }
+  });
+  window.addEventListener('resize', render);
+})();
+`;
+
+export function renderMockAppPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>PushPress (mock)</title>
+<style>${APP_STYLE}</style>
+</head>
+<body>
+<flt-glass-pane></flt-glass-pane>
+<flt-semantics-host></flt-semantics-host>
+<script>${APP_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DAY_KEYS } from '../dates';
+
+const DayKeySchema = z.enum(DAY_KEYS);
+const TimeSchema = z.string().trim().regex(/^\d{1,2}:\d{2}\s*(am|pm)$/i, 'expected a time like "6:00 AM"');
+
+const WorkoutItemSchema = z
+  .object({
+    title: z.string().trim().min(1),
+    description: z.string().default(''),
+    workoutTitle: z.string().trim().optional(),
+  })
+  .strict();
+
+const ClassSchema = z
+  .object({
+    id: z.string().trim().min(1).optional(),
+    name: z.string().trim().min(1),
+    time: TimeSchema,
+    durationMinutes: z.number().int().positive().default(60),
+    coach: z.string().trim().default(''),
+    capacity: z.number().int().positive().default(12),
+    booked: z.number().int().nonnegative().default(0),
+    days: z.array(DayKeySchema).min(1).default([...DAY_KEYS]),
+    opensSoon: z.boolean().default(false),
+  })
+  .strict();
+
+const MemberSchema = z
+  .object({
+    email: z.string().trim().min(1),
+    password: z.string().min(1),
+    name: z.string().trim().min(1),
+  })
+  .strict();
+
+export type MockWorkoutItem = z.infer<typeof WorkoutItemSchema>;
+export type MockClass = z.infer<typeof ClassSchema> & { id: string };
+export type MockMember = z.infer<typeof MemberSchema>;
+
+export interface MockFixtures {
+  member: MockMember;
+  workouts: Record<string, Partial<Record<(typeof DAY_KEYS)[number], MockWorkoutItem[]>>>;
+  classes: MockClass[];
+}
+
+const WEEKDAYS: MockClass['days'] = ['mon', 'tue', 'wed', 'thu', 'fri'];
+
+const CROSSFIT_WEEK: MockFixtures['workouts'][string] = {
+  sun: [{ title: 'Open Gym', description: 'Make up a missed workout or work on skills.' }],
+  mon: [
+    { title: 'Warm-up', description: '2 Rounds: 10 Air Squats, 10 Push-Ups, 200m Row' },
+    { title: 'Strength', description: 'Back Squat 5-5-5-5-5 Build to a heavy 5' },
+    {
+      title: '"Monday Mixer"',
+      workoutTitle: 'Monday Mixer',
+      description: 'For Time: 21-15-9 Thrusters (95/65 lb) Pull-Ups Level 2: 75/55 lb, banded pull-ups',
+    },
+  ],
+  tue: [
+    { title: 'Weightlifting', description: 'Every 2 Minutes for 10 Minutes: 2 Power Cleans' },
+    { title: '"Engine"', workoutTitle: 'Engine', description: 'AMRAP 15: 250m Row 12 Wall Ball 9 Box Jumps' },
+  ],
+  wed: [
+    {
+      title: '"Hump Day"',
+      workoutTitle: 'Hump Day',
+      description: 'EMOM 20: Minute 1: 15 Cal Row Minute 2: 12 Burpees',
+    },
+  ],
+  thu: [
+    { title: 'Strength', description: 'Deadlift 3-3-3-3 Build to a heavy triple' },
+    {
+      title: '"Grip"',
+      workoutTitle: 'Grip',
+      description: '3 Rounds For Time: 400m Run 15 Kettlebell Swings 10 Toes-to-Bar',
+    },
+  ],
+  fri: [
+    {
+      title: '"Friday Partner"',
+      workoutTitle: 'Friday Partner',
+      description: 'AMRAP 20 with a partner: 20 Dumbbells Snatches 20 Sit-Ups 200m Run',
+    },
+  ],
+  sat: [
+    {
+      title: '"Team Saturday"',
+      workoutTitle: 'Team Saturday',
+      description: 'Teams of 3, For Time: 100 Cal Row 100 Push-Ups 100 Sit-Ups',
+    },
+  ],
+};
+
+const ENDURANCE_WEEK: MockFixtures['workouts'][string] = {
+  mon: [{ title: 'Intervals', description: '6 x 500m Row, rest 1:30 between efforts' }],
+  wed: [{ title: 'Tempo', description: '30 Minute steady run at conversational pace' }],
+  fri: [{ title: 'Long Row', description: '10,000m Row for time' }],
+};
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  member: { email: 'member@example.com', password: 'password', name: 'Alex Member' },
+  workouts: {
+    CrossFit: CROSSFIT_WEEK,
+    Endurance: ENDURANCE_WEEK,
+  },
+  classes: [
+    {
+      id: 'crossfit-0600',
+      name: 'CrossFit',
+      time: '6:00 AM',
+      durationMinutes: 60,
+      coach: 'Sam',
+      capacity: 12,
+      booked: 4,
+      days: WEEKDAYS,
+      opensSoon: false,
+    },
+    {
+      id: 'crossfit-0700',
+      name: 'CrossFit',
+      time: '7:00 AM',
+      durationMinutes: 60,
+      coach: 'Jo',
+      capacity: 12,
+      booked: 12,
+      days: WEEKDAYS,
+      opensSoon: false,
+    },
+    {
+      id: 'open-gym-0900',
+      name: 'Open Gym',
+      time: '9:00 AM',
+      durationMinutes: 120,
+      coach: '',
+      capacity: 20,
+      booked: 2,
+      days: [...DAY_KEYS],
+      opensSoon: false,
+    },
+    {
+      id: 'yoga-1200',
+      name: 'Yoga',
+      time: '12:00 PM',
+      durationMinutes: 45,
+      coach: 'Riley',
+      capacity: 10,
+      booked: 3,
+      days: ['tue', 'thu'],
+      opensSoon: false,
+    },
+    {
+      id: 'crossfit-1730',
+      name: 'CrossFit',
+      time: '5:30 PM',
+      durationMinutes: 60,
+      coach: 'Sam',
+      capacity: 14,
+      booked: 6,
+      days: WEEKDAYS,
+      opensSoon: false,
+    },
+    {
+      id: 'crossfit-1000-sat',
+      name: 'CrossFit',
+      time: '10:00 AM',
+      durationMinutes: 60,
+      coach: 'Jo',
+      capacity: 16,
+      booked: 0,
+      days: ['sat'],
+      opensSoon: true,
+    },
+  ],
+};
+
+const FixturesSchema = z
+  .object({
+    member: MemberSchema.default(DEFAULT_MOCK_FIXTURES.member),
+    workouts: z
+      .record(z.record(DayKeySchema, z.array(WorkoutItemSchema)))
+      .default(DEFAULT_MOCK_FIXTURES.workouts),
+    classes: z.array(ClassSchema).default(DEFAULT_MOCK_FIXTURES.classes),
+  })
+  .strict();
+
+function classId(entry: z.infer<typeof ClassSchema>, index: number): string {
+  if (entry.id) {
+    return entry.id;
+  }
+  const slug = entry.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'class'}-${index + 1}`;
+}
+
+export function parseMockFixtures(value: unknown, source = 'mock fixtures'): MockFixtures {
+  const result = FixturesSchema.safeParse(value ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${source}: ${issues}`);
+  }
+
+  const ids = new Set<string>();
+  const classes = result.data.classes.map((entry, index) => {
+    const id = classId(entry, index);
+    if (ids.has(id)) {
+      throw new Error(`Invalid ${source}: classes.${index}.id: duplicate class id "${id}"`);
+    }
+    ids.add(id);
+    return { ...entry, id };
+  });
+
+  return { member: result.data.member, workouts: result.data.workouts, classes };
+}
+
+export function loadMockFixtures(filePath: string): MockFixtures {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Mock fixtures not found: ${resolved}`);
+  }
+
+  const raw = fs.readFileSync(resolved, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse mock fixtures ${resolved}: ${message}`);
+  }
+
+  return parseMockFixtures(parsed, `mock fixtures ${resolved}`);
+}
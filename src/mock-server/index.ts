@@ -0,0 +1,417 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Logger } from 'pino';
+import { DAY_KEYS } from '../dates';
+import { GraphqlOperation, parseGraphqlOperations } from '../graphql';
+import { renderMockAppPage } from './app';
+import { DEFAULT_MOCK_FIXTURES, MockClass, MockFixtures } from './fixtures';
+
+export { DEFAULT_MOCK_FIXTURES, loadMockFixtures, parseMockFixtures } from './fixtures';
+export type { MockClass, MockFixtures, MockMember, MockWorkoutItem } from './fixtures';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  fixtures?: MockFixtures;
+  latencyMs?: number;
+  tokenTtlSeconds?: number;
+  logger?: Logger;
+}
+
+export type MockSlotStatus = 'open' | 'full' | 'reserve-soon' | 'reserved' | 'waitlisted';
+
+export interface MockReservation {
+  id: string;
+  classId: string;
+  date: string;
+  status: 'reserved' | 'waitlisted';
+}
+
+export interface MockServer {
+  url: string;
+  graphqlUrl: string;
+  fixtures: MockFixtures;
+  reservations(): MockReservation[];
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface MockSlot {
+  id: string;
+  classId: string;
+  name: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  coach: string;
+  capacity: number;
+  booked: number;
+  status: MockSlotStatus;
+}
+
+interface ServerContext {
+  fixtures: MockFixtures;
+  reservations: Map<string, MockReservation>;
+  latencyMs: number;
+  tokenTtlSeconds: number;
+  logger?: Logger;
+}
+
+type Resolver = (context: ServerContext, variables: Record<string, unknown>) => unknown;
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_LATENCY_MS = 250;
+const DEFAULT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+const TOKEN_SECRET = 'pushpress-mock-server';
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+const PUBLIC_FIELDS = new Set(['login']);
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function signature(content: string): string {
+  return crypto.createHmac('sha256', TOKEN_SECRET).update(content).digest('base64url');
+}
+
+function issueToken(context: ServerContext): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(
+    JSON.stringify({
+      sub: context.fixtures.member.email,
+      name: context.fixtures.member.name,
+      iat: now,
+      exp: now + context.tokenTtlSeconds,
+    })
+  ).toString('base64url');
+  return `${header}.${payload}.${signature(`${header}.${payload}`)}`;
+}
+
+function isValidToken(token: string): boolean {
+  const [header, payload, sig] = token.split('.');
+  if (!header || !payload || sig !== signature(`${header}.${payload}`)) {
+    return false;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as { exp?: unknown };
+    return typeof claims.exp === 'number' && claims.exp * 1000 > Date.now();
+  } catch {
+    return false;
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return Boolean(match && isValidToken(match[1].trim()));
+}
+
+function requireDate(variables: Record<string, unknown>): string {
+  const value = typeof variables.date === 'string' ? variables.date.match(DATE_PATTERN) : null;
+  if (!value) {
+    throw new Error('Variable "date" must be a YYYY-MM-DD date.');
+  }
+  return value[1];
+}
+
+function requireId(variables: Record<string, unknown>): string {
+  if (typeof variables.id !== 'string' || !variables.id) {
+    throw new Error('Variable "id" is required.');
+  }
+  return variables.id;
+}
+
+function dayKeyOf(date: string): (typeof DAY_KEYS)[number] {
+  return DAY_KEYS[new Date(`${date}T12:00:00Z`).getUTCDay()];
+}
+
+function toMinutes(time: string): number {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm)$/i);
+  if (!match) {
+    return 0;
+  }
+  const hours = Number(match[1]) % 12 + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+  return hours * 60 + Number(match[2]);
+}
+
+function formatTime(totalMinutes: number): string {
+  const minutes = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+function buildSlot(context: ServerContext, entry: MockClass, date: string): MockSlot {
+  const id = `${entry.id}@${date}`;
+  const reservation = context.reservations.get(id);
+  const booked = Math.min(entry.capacity, entry.booked + (reservation?.status === 'reserved' ? 1 : 0));
+
+  let status: MockSlotStatus = 'open';
+  if (reservation) {
+    status = reservation.status;
+  } else if (entry.opensSoon) {
+    status = 'reserve-soon';
+  } else if (booked >= entry.capacity) {
+    status = 'full';
+  }
+
+  return {
+    id,
+    classId: entry.id,
+    name: entry.name,
+    date,
+    startTime: formatTime(toMinutes(entry.time)),
+    endTime: formatTime(toMinutes(entry.time) + entry.durationMinutes),
+    durationMinutes: entry.durationMinutes,
+    coach: entry.coach,
+    capacity: entry.capacity,
+    booked,
+    status,
+  };
+}
+
+function scheduleFor(context: ServerContext, date: string): MockSlot[] {
+  const dayKey = dayKeyOf(date);
+  return context.fixtures.classes
+    .filter((entry) => entry.days.includes(dayKey))
+    .map((entry) => buildSlot(context, entry, date))
+    .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+}
+
+function findSlot(context: ServerContext, id: string): MockSlot {
+  const [classId, date] = id.split('@');
+  const entry = context.fixtures.classes.find((candidate) => candidate.id === classId);
+  if (!entry || !date || !DATE_PATTERN.test(date) || !entry.days.includes(dayKeyOf(date))) {
+    throw new Error(`Class not found: ${id}`);
+  }
+  return buildSlot(context, entry, date);
+}
+
+const resolvers: Record<string, Resolver> = {
+  login(context, variables) {
+    const { member } = context.fixtures;
+    const email = typeof variables.email === 'string' ? variables.email.trim().toLowerCase() : '';
+    if (email !== member.email.toLowerCase() || variables.password !== member.password) {
+      throw new Error('Invalid username/email or password.');
+    }
+    return { token: issueToken(context), member: { id: 'member-1', name: member.name, email: member.email } };
+  },
+  me(context) {
+    return { id: 'member-1', name: context.fixtures.member.name, email: context.fixtures.member.email };
+  },
+  workoutTypes(context) {
+    return Object.keys(context.fixtures.workouts);
+  },
+  workoutOfDay(context, variables) {
+    const date = requireDate(variables);
+    const types = Object.keys(context.fixtures.workouts);
+    const type =
+      typeof variables.workoutType === 'string' && variables.workoutType ? variables.workoutType : types[0];
+    const items = context.fixtures.workouts[type]?.[dayKeyOf(date)] ?? [];
+    return items.map((item, index) => ({
+      id: `${type}-${date}-${index + 1}`,
+      title: item.title,
+      description: item.description,
+      workoutTitle: item.workoutTitle ?? null,
+      workoutType: type,
+      rawPublishingDate: `${date}T00:00:00.000Z`,
+    }));
+  },
+  classTypes(context) {
+    return Array.from(new Set(context.fixtures.classes.map((entry) => entry.name)));
+  },
+  classSchedule(context, variables) {
+    return scheduleFor(context, requireDate(variables));
+  },
+  reservations(context) {
+    return Array.from(context.reservations.values())
+      .map((reservation) => findSlot(context, reservation.id))
+      .sort((a, b) => a.date.localeCompare(b.date) || toMinutes(a.startTime) - toMinutes(b.startTime));
+  },
+  reserveClass(context, variables) {
+    const slot = findSlot(context, requireId(variables));
+    if (slot.status === 'reserved' || slot.status === 'waitlisted') {
+      return slot;
+    }
+    if (slot.status === 'reserve-soon') {
+      throw new Error('Reservations for this class are not open yet.');
+    }
+    context.reservations.set(slot.id, {
+      id: slot.id,
+      classId: slot.classId,
+      date: slot.date,
+      status: slot.status === 'full' ? 'waitlisted' : 'reserved',
+    });
+    return findSlot(context, slot.id);
+  },
+  cancelReservation(context, variables) {
+    const slot = findSlot(context, requireId(variables));
+    context.reservations.delete(slot.id);
+    return findSlot(context, slot.id);
+  },
+};
+
+function redactVariables(variables: Record<string, unknown>): Record<string, unknown> {
+  return 'password' in variables ? { ...variables, password: '***' } : variables;
+}
+
+function executeOperation(context: ServerContext, operation: GraphqlOperation): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const errors: { message: string; path: string[] }[] = [];
+
+  for (const field of operation.rootFields) {
+    const resolver = resolvers[field];
+    if (!resolver) {
+      errors.push({ message: `Cannot query field "${field}".`, path: [field] });
+      data[field] = null;
+      continue;
+    }
+    try {
+      data[field] = resolver(context, operation.variables);
+    } catch (error) {
+      errors.push({ message: error instanceof Error ? error.message : String(error), path: [field] });
+      data[field] = null;
+    }
+  }
+
+  return errors.length > 0 ? { data, errors } : { data };
+}
+
+async function handleGraphql(
+  context: ServerContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const body = await readBody(req);
+  const operations = parseGraphqlOperations(`http://localhost${req.url ?? '/'}`, body);
+  if (operations.length === 0) {
+    sendJson(res, 400, { errors: [{ message: 'Expected a GraphQL request body.' }] });
+    return;
+  }
+
+  const needsAuth = operations.some((operation) =>
+    operation.rootFields.some((field) => !PUBLIC_FIELDS.has(field))
+  );
+  if (needsAuth && !isAuthorized(req)) {
+    context.logger?.debug(
+      { operations: operations.map((operation) => operation.operationName) },
+      'Mock API rejected request'
+    );
+    sendJson(res, 401, { errors: [{ message: 'Unauthenticated' }] });
+    return;
+  }
+
+  if (context.latencyMs > 0) {
+    await delay(context.latencyMs);
+  }
+
+  const results = operations.map((operation) => {
+    context.logger?.debug(
+      {
+        operation: operation.operationName,
+        rootFields: operation.rootFields,
+        variables: redactVariables(operation.variables),
+      },
+      'Mock API request'
+    );
+    return executeOperation(context, operation);
+  });
+  sendJson(res, 200, body.trim().startsWith('[') ? results : results[0]);
+}
+
+async function handleRequest(
+  context: ServerContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  if (pathname === '/graphql') {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { allow: 'POST' });
+      res.end();
+      return;
+    }
+    await handleGraphql(context, req, res);
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { allow: 'GET, HEAD' });
+    res.end();
+    return;
+  }
+
+  if (pathname === '/favicon.ico') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'no-store' });
+  res.end(req.method === 'HEAD' ? undefined : renderMockAppPage());
+}
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const host = options.host ?? DEFAULT_HOST;
+  const context: ServerContext = {
+    fixtures: options.fixtures ?? DEFAULT_MOCK_FIXTURES,
+    reservations: new Map(),
+    latencyMs: options.latencyMs ?? DEFAULT_LATENCY_MS,
+    tokenTtlSeconds: options.tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS,
+    logger: options.logger,
+  };
+
+  const server = http.createServer((req, res) => {
+    handleRequest(context, req, res).catch((error) => {
+      context.logger?.warn({ err: error, url: req.url }, 'Mock server request failed');
+      if (!res.headersSent) {
+        sendJson(res, 500, { errors: [{ message: error instanceof Error ? error.message : String(error) }] });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const publicHost = host === '0.0.0.0' || host === '::' ? 'localhost' : host;
+  const url = `http://${publicHost.includes(':') ? `[${publicHost}]` : publicHost}:${port}`;
+
+  return {
+    url,
+    graphqlUrl: `${url}/graphql`,
+    fixtures: context.fixtures,
+    reservations: () => Array.from(context.reservations.values()),
+    reset: () => context.reservations.clear(),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
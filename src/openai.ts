@@ -1,13 +1,13 @@
 import fs from 'fs';
 import path from 'path';
-import OpenAI from 'openai';
 import type { Logger } from 'pino';
 import type { AppConfig } from './types';
+import { createSummaryProvider, hashPrompt, withResponseCache } from './llm';
 
 const DEFAULT_PROMPT_PATH = path.resolve('./prompts/workout-week-summary.md');
 
-function buildPrompt(template: string, summaryEnvelope: unknown): string {
-  const summaryJson = JSON.stringify(summaryEnvelope, null, 2);
+function buildPrompt(template: string, summaryEnvelope: { data: unknown }): string {
+  const summaryJson = JSON.stringify({ data: summaryEnvelope.data }, null, 2);
   if (template.includes('generated_json_summary')) {
     return template.replace('generated_json_summary', summaryJson);
   }
@@ -17,14 +17,9 @@ function buildPrompt(template: string, summaryEnvelope: unknown): string {
 
 export async function generateWorkoutWeekMarkdown(
   config: AppConfig,
-  summaryEnvelope: unknown,
+  summaryEnvelope: { data: unknown },
   logger: Logger
 ): Promise<string> {
-  const apiKey = config.openai.apiKey;
-  if (!apiKey) {
-    throw new Error('Missing OPENAI_API_KEY.');
-  }
-
   const promptPath = config.openai.promptPath || DEFAULT_PROMPT_PATH;
   const resolvedPromptPath = path.resolve(promptPath);
 
@@ -35,19 +30,14 @@ export async function generateWorkoutWeekMarkdown(
   const promptTemplate = fs.readFileSync(resolvedPromptPath, 'utf-8');
   const prompt = buildPrompt(promptTemplate, summaryEnvelope);
 
-  logger.info({ model: config.openai.model }, 'Requesting OpenAI markdown summary');
-
-  const client = new OpenAI({ apiKey });
-  const response = await client.chat.completions.create({
-    model: config.openai.model,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: 0,
-  });
-
-  const content = response.choices[0]?.message?.content?.trim();
-  if (!content) {
-    throw new Error('OpenAI response was empty.');
+  let provider = createSummaryProvider(config);
+  if (config.summaryProvider.cache && provider.name !== 'fixture') {
+    provider = withResponseCache(provider, config.summaryProvider.cacheDir, logger);
   }
 
-  return content;
+  logger.info(
+    { provider: provider.name, model: provider.model, promptHash: hashPrompt(prompt) },
+    'Requesting markdown summary'
+  );
+  return provider.complete(prompt);
 }
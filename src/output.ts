@@ -20,11 +20,11 @@ export interface OutputEnvelope {
   errors: string[];
 }
 
-function formatDate(date: Date): string {
+export function formatDate(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
 
-function formatTime(date: Date): string {
+export function formatTime(date: Date): string {
   return date.toISOString().slice(11, 19).replace(/:/g, '');
 }
 
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { FlowContext } from './types';
+import { runFlow } from './flow-runner';
+import { getFlow } from './flows';
+import { BookingRecord, parseDays } from './flows/schedule-book.flow';
+
+const PlanEntrySchema = z
+  .object({
+    day: z
+      .union([z.string(), z.array(z.string())])
+      .transform((value) => (Array.isArray(value) ? value.join(',') : value))
+      .refine((value) => parseDays(value).length > 0, { message: 'must name at least one day (sun-sat)' }),
+    time: z.string().trim().min(1),
+    class: z.string().trim().min(1).default('CrossFit'),
+    category: z.string().trim().min(1).default('Classes'),
+    waitlist: z.boolean().default(false),
+    fallbackTimes: z.array(z.string().trim().min(1)).default([]),
+    week: z.union([z.string(), z.number()]).transform(String).optional(),
+  })
+  .strict();
+
+const BookingPlanSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { entries: value } : value),
+  z
+    .object({
+      week: z.union([z.string(), z.number()]).transform(String).optional(),
+      entries: z.array(PlanEntrySchema).min(1),
+    })
+    .strict()
+);
+
+export type BookingPlanEntry = z.infer<typeof PlanEntrySchema>;
+export type BookingPlan = z.infer<typeof BookingPlanSchema>;
+
+export interface PlanEntryReport {
+  index: number;
+  entry: BookingPlanEntry;
+  status: 'booked' | 'matched' | 'not-booked' | 'failed';
+  bookings: BookingRecord[];
+  matches: BookingRecord[];
+  attempts: BookingRecord[];
+  notice?: unknown;
+  error?: string;
+}
+
+export interface PlanRunOptions {
+  confirm: boolean;
+  week?: string;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+export function loadBookingPlan(filePath: string): BookingPlan {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Booking plan not found: ${resolved}`);
+  }
+
+  const raw = fs.readFileSync(resolved, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse booking plan ${resolved}: ${message}`);
+  }
+
+  const result = BookingPlanSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid booking plan ${resolved}: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+function asRecords(value: unknown): BookingRecord[] {
+  return Array.isArray(value) ? (value as BookingRecord[]) : [];
+}
+
+export async function runBookingPlan(
+  plan: BookingPlan,
+  ctx: FlowContext,
+  options: PlanRunOptions
+): Promise<PlanEntryReport[]> {
+  const flow = getFlow('schedule-book');
+  if (!flow) {
+    throw new Error('schedule-book flow is not registered.');
+  }
+
+  const reports: PlanEntryReport[] = [];
+  for (const [index, entry] of plan.entries.entries()) {
+    const report: PlanEntryReport = {
+      index,
+      entry,
+      status: 'not-booked',
+      bookings: [],
+      matches: [],
+      attempts: [],
+    };
+
+    ctx.params = {
+      days: entry.day,
+      time: entry.time,
+      fallbackTime: entry.fallbackTimes.join(','),
+      class: entry.class,
+      category: entry.category,
+      week: options.week ?? entry.week ?? plan.week,
+      waitlist: entry.waitlist ? 'true' : 'false',
+      confirm: options.confirm ? 'true' : 'false',
+    };
+    ctx.flowData = {};
+    ctx.logger.info({ entry: index, days: entry.day, time: entry.time, class: entry.class }, 'Running plan entry');
+
+    try {
+      const result = await runFlow(flow, ctx, { reauthFlow: getFlow('login') });
+      report.bookings = asRecords(result.data.bookings);
+      report.matches = asRecords(result.data.matches);
+      report.attempts = asRecords(result.data.attempts);
+      report.notice = result.data.notice;
+      if (report.bookings.length > 0) {
+        report.status = 'booked';
+      } else if (report.matches.length > 0) {
+        report.status = 'matched';
+      }
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : String(error);
+      ctx.logger.warn({ entry: index, err: error }, 'Plan entry failed');
+    }
+
+    reports.push(report);
+  }
+
+  return reports;
+}
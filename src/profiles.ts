@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseDotenv } from 'dotenv';
+
+export interface ProfileSummary {
+  name: string;
+  path: string;
+  email: string;
+}
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+const PROFILE_EXTENSION = '.env';
+
+export function profilesDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.PUSHPRESS_PROFILES_DIR?.trim() || './profiles');
+}
+
+export function assertProfileName(name: string): string {
+  const trimmed = name.trim();
+  if (!PROFILE_NAME_PATTERN.test(trimmed)) {
+    throw new Error(`Invalid profile name "${name}". Use letters, numbers, "-" or "_".`);
+  }
+  return trimmed;
+}
+
+export function profilePath(name: string, env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(profilesDir(env), `${assertProfileName(name)}${PROFILE_EXTENSION}`);
+}
+
+export function profileExists(name: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  return fs.existsSync(profilePath(name, env));
+}
+
+export function readProfileEnv(name: string, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const filePath = profilePath(name, env);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Profile not found: ${name} (${filePath})`);
+  }
+  return parseDotenv(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function listProfiles(env: NodeJS.ProcessEnv = process.env): ProfileSummary[] {
+  const dir = profilesDir(env);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(PROFILE_EXTENSION))
+    .map((file) => file.slice(0, -PROFILE_EXTENSION.length))
+    .filter((name) => PROFILE_NAME_PATTERN.test(name))
+    .sort()
+    .map((name) => {
+      const filePath = path.join(dir, `${name}${PROFILE_EXTENSION}`);
+      const values = parseDotenv(fs.readFileSync(filePath, 'utf-8'));
+      return { name, path: filePath, email: values.PUSHPRESS_EMAIL ?? '' };
+    });
+}
+
+function formatEnvValue(value: string): string {
+  return /^[\w@%+=:,./-]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+export function writeProfile(
+  name: string,
+  values: Record<string, string | undefined>,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  const filePath = profilePath(name, env);
+  const existing = fs.existsSync(filePath) ? parseDotenv(fs.readFileSync(filePath, 'utf-8')) : {};
+  const merged = { ...existing, ...values };
+  const content = Object.entries(merged)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${formatEnvValue(value)}`)
+    .join('\n');
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${content}\n`, { encoding: 'utf-8', mode: 0o600 });
+  return filePath;
+}
+
+export function removeProfile(name: string, env: NodeJS.ProcessEnv = process.env): string {
+  const filePath = profilePath(name, env);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Profile not found: ${name} (${filePath})`);
+  }
+  fs.rmSync(filePath);
+  return filePath;
+}
+
+export function profileStateDir(name: string): string {
+  return path.resolve('./state/profiles', assertProfileName(name));
+}
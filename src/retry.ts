@@ -0,0 +1,60 @@
+import { RetryOptions } from './types';
+
+export interface RetryAttempt {
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface WithRetryOptions extends RetryOptions {
+  onRetry?: (info: RetryAttempt) => void | Promise<void>;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 1;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const JITTER_RATIO = 0.1;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+export function computeBackoffDelay(attempt: number, options: RetryOptions = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const backoffFactor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+
+  const exponential = baseDelayMs * Math.pow(backoffFactor, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, maxDelayMs);
+  const jitter = capped * JITTER_RATIO * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(capped + jitter));
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: WithRetryOptions = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, Math.floor(options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS));
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const shouldRetry = options.retryOn ? await options.retryOn(error, attempt) : true;
+      if (!shouldRetry) {
+        throw error;
+      }
+
+      const delayMs = computeBackoffDelay(attempt, options);
+      await options.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,271 @@
+import type { Logger } from 'pino';
+import { AppConfig, FlowContext, FlowDefinition } from './types';
+import { getFlow } from './flows';
+import { launchBrowser } from './browser';
+import { sessionStateExists, validateSession } from './auth';
+import { runFlow } from './flow-runner';
+import { NetworkCapture } from './capture';
+import { writeOutputWithSuffix, writeTextOutputWithSuffix } from './output';
+import { buildWorkoutSummaryByDay } from './summary';
+import { generateSummaryMarkdown } from './markdown';
+import { writeArtifactBundle } from './artifacts';
+import { withSessionLock } from './lock';
+import { appendRunRecord, createRunId, RunRecord, RunTrigger } from './history';
+import { buildBookingCalendar, hasCalendarEvents } from './ics';
+import { quickSessionCheck } from './session';
+import type { BookingRecord } from './flows/schedule-book.flow';
+
+export interface ExecuteFlowOptions {
+  params: Record<string, string | undefined>;
+  pause?: boolean;
+  trigger?: RunTrigger;
+  job?: string;
+}
+
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[^\x00-\x7F]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export async function waitForEnter(): Promise<void> {
+  if (!process.stdin.isTTY) {
+    return;
+  }
+
+  return new Promise((resolve) => {
+    process.stdin.resume();
+    process.stdin.once('data', () => {
+      resolve();
+    });
+  });
+}
+
+export async function ensureValidSession(ctx: FlowContext, flowName: string): Promise<void> {
+  const { config, logger, page } = ctx;
+  if (!page || !sessionStateExists(config)) {
+    return;
+  }
+
+  let valid: boolean | undefined;
+  if (config.sessionCheck !== 'browser') {
+    const quick = await quickSessionCheck(config, logger, { probe: config.sessionCheck === 'http' });
+    logger.info({ flow: flowName, ...quick }, 'Quick session check');
+    valid = quick.status === 'unknown' ? undefined : quick.status === 'valid';
+  }
+
+  if (valid === undefined) {
+    logger.info({ flow: flowName }, 'Validating existing session');
+    valid = await validateSession(page, config, logger);
+  }
+  if (valid) {
+    return;
+  }
+
+  logger.info({ flow: 'login' }, 'Session invalid; re-authenticating');
+  const loginFlow = getFlow('login');
+  if (!loginFlow) {
+    throw new Error('Login flow is not registered.');
+  }
+  await runFlow(loginFlow, ctx);
+}
+
+export async function executeFlow(
+  flow: FlowDefinition,
+  config: AppConfig,
+  logger: Logger,
+  options: ExecuteFlowOptions
+): Promise<RunRecord> {
+  const { params } = options;
+  const startedAt = new Date();
+  const record: RunRecord = {
+    id: createRunId(startedAt),
+    flow: flow.name,
+    trigger: options.trigger ?? 'cli',
+    job: options.job,
+    profile: config.profile,
+    params,
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    durationMs: 0,
+    success: false,
+  };
+
+  try {
+    await withSessionLock(config, logger, options.job ?? flow.name, async () => {
+      logger.info(
+        { flow: flow.name, profile: config.profile, sessionStateExists: sessionStateExists(config) },
+        'Launching browser'
+      );
+
+      const session = await launchBrowser(config, { tracing: config.trace });
+      const capture = new NetworkCapture(session.page, logger);
+      const ctx: FlowContext = { config, logger, page: session.page, capture, params };
+
+      try {
+        if (config.har.replayPath) {
+          logger.info({ har: config.har.replayPath }, 'Replaying network from HAR; skipping session validation');
+        } else if (flow.name !== 'login') {
+          await ensureValidSession(ctx, flow.name);
+        }
+
+        const start = Date.now();
+        if (flow.name === 'schedule-book' && params.confirm !== 'true') {
+          logger.info('Schedule booking is running in dry mode. Use --confirm to book.');
+        }
+
+        const result = await runFlow(flow, ctx, { reauthFlow: getFlow('login') });
+        const durationMs = Date.now() - start;
+        record.stepsCompleted = result.stepsCompleted;
+
+        if (flow.name !== 'login') {
+          const workoutTypeParam = params.workoutType;
+          const workoutTypeSlug =
+            flow.name.startsWith('workout-') && workoutTypeParam ? slugify(workoutTypeParam) : '';
+          const workoutTypeSuffix = workoutTypeSlug ? `-${workoutTypeSlug}` : '';
+          const now = new Date();
+          const envelope = {
+            meta: {
+              tool: 'cfcnx-pushpress-cli',
+              version: '0.1.0',
+              flow: flow.name,
+              appUrl: config.baseUrl,
+              timestamp: now.toISOString(),
+              durationMs,
+              stepsCompleted: result.stepsCompleted,
+              stepsTotal: flow.steps.length,
+              success: true,
+            },
+            data: result.data,
+            errors: [],
+          };
+
+          const outputPath = writeOutputWithSuffix(
+            config,
+            flow.name,
+            envelope,
+            workoutTypeSuffix,
+            now
+          );
+          record.outputPath = outputPath;
+          logger.info({ outputPath }, 'Output written');
+
+          const bookings = (result.data.bookings ?? []) as BookingRecord[];
+          if (flow.name === 'schedule-book' && hasCalendarEvents(bookings)) {
+            const calendarPath = writeTextOutputWithSuffix(
+              config,
+              flow.name,
+              buildBookingCalendar(bookings, { calendarName: 'PushPress bookings', now }),
+              '',
+              '.ics',
+              now
+            );
+            logger.info({ calendarPath }, 'Calendar written');
+          }
+
+          if (flow.name === 'workout-week') {
+            const summarySource = {
+              workoutsWeek: result.data['workouts-week'],
+              workoutHistoryWeek: result.data['workout-history-week'],
+              workoutOfDay: result.data['workout-of-day'],
+            } as Record<string, unknown>;
+            const summary = buildWorkoutSummaryByDay(summarySource);
+            const summaryEnvelope = {
+              meta: {
+                ...envelope.meta,
+                flow: `${flow.name}-summary`,
+              },
+              data: {
+                summaryByDay: summary,
+              },
+              errors: [],
+            };
+            const summaryPath = writeOutputWithSuffix(
+              config,
+              flow.name,
+              summaryEnvelope,
+              `${workoutTypeSuffix}-summary`,
+              now
+            );
+            logger.info({ summaryPath }, 'Summary output written');
+
+            try {
+              const { markdown, renderer } = await generateSummaryMarkdown(
+                config,
+                summaryEnvelope,
+                logger
+              );
+              const markdownPath = writeTextOutputWithSuffix(
+                config,
+                flow.name,
+                markdown,
+                `${workoutTypeSuffix}-summary`,
+                '.md',
+                now
+              );
+              logger.info({ markdownPath, renderer }, 'Markdown summary written');
+            } catch (error) {
+              logger.warn({ err: error }, 'Markdown summary generation skipped');
+            }
+          }
+        }
+
+        if (config.saveTraces) {
+          const artifactsPath = await writeArtifactBundle(config, logger, {
+            flowName: flow.name,
+            reason: 'success',
+            page: ctx.page,
+            context: session.context,
+            capture,
+          });
+          record.artifactsPath = artifactsPath;
+          logger.info({ artifactsPath }, 'Artifacts written');
+        }
+
+        if (options.pause) {
+          logger.info('Flow complete. Press Enter to close the browser.');
+          await waitForEnter();
+        }
+      } catch (error) {
+        const artifactsPath = await writeArtifactBundle(config, logger, {
+          flowName: flow.name,
+          reason: 'failure',
+          page: ctx.page,
+          context: session.context,
+          capture,
+          error,
+        }).catch((artifactError) => {
+          logger.debug({ err: artifactError }, 'Failed to write artifact bundle');
+          return undefined;
+        });
+        if (artifactsPath) {
+          record.artifactsPath = artifactsPath;
+          logger.error({ artifactsPath }, 'Failure artifacts written');
+        }
+        throw error;
+      } finally {
+        await session.close();
+        logger.info({ flow: flow.name }, 'Browser closed.');
+      }
+    });
+
+    record.success = true;
+    return record;
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    const finishedAt = new Date();
+    record.finishedAt = finishedAt.toISOString();
+    record.durationMs = finishedAt.getTime() - startedAt.getTime();
+    try {
+      appendRunRecord(config, record);
+    } catch (historyError) {
+      logger.warn({ err: historyError }, 'Failed to write run history');
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { execSync } from 'child_process';
+import { decryptText, encryptText, isEncryptedPayload } from './crypto';
+
+export const SECRET_KEYS = ['PUSHPRESS_PASSWORD', 'PUSHPRESS_SESSION_KEY', 'OPENAI_API_KEY', 'SUMMARY_API_KEY'] as const;
+
+export type SecretKey = (typeof SECRET_KEYS)[number];
+
+export type SecretSource = 'env' | 'command' | 'vault' | 'missing';
+
+export interface SecretStatus {
+  source: SecretSource;
+  error?: string;
+}
+
+export interface SecretStore {
+  get: (key: SecretKey) => string;
+  status: (key: SecretKey) => SecretStatus;
+  peek: (key: SecretKey) => SecretStatus | undefined;
+}
+
+const COMMAND_TIMEOUT_MS = 15000;
+
+export function isSecretKey(value: string): value is SecretKey {
+  return (SECRET_KEYS as readonly string[]).includes(value);
+}
+
+export function vaultPassphrase(env: NodeJS.ProcessEnv = process.env): string {
+  const direct = env.PUSHPRESS_VAULT_PASSPHRASE;
+  if (direct) {
+    return direct;
+  }
+  const command = env.PUSHPRESS_VAULT_PASSPHRASE_CMD?.trim();
+  return command ? runSecretCommand('PUSHPRESS_VAULT_PASSPHRASE_CMD', command) : '';
+}
+
+function runSecretCommand(name: string, command: string): string {
+  try {
+    return execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: COMMAND_TIMEOUT_MS,
+    }).replace(/\r?\n$/, '');
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`${name} failed${stderr ? `: ${stderr}` : '.'}`);
+  }
+}
+
+export function readVault(vaultPath: string, passphrase: string): Record<string, string> {
+  if (!fs.existsSync(vaultPath)) {
+    return {};
+  }
+
+  const payload = JSON.parse(fs.readFileSync(vaultPath, 'utf-8')) as unknown;
+  if (!isEncryptedPayload(payload)) {
+    throw new Error(`Not an encrypted vault: ${vaultPath}`);
+  }
+  return JSON.parse(decryptText(payload, passphrase)) as Record<string, string>;
+}
+
+export function writeVault(vaultPath: string, passphrase: string, values: Record<string, string>): void {
+  fs.mkdirSync(path.dirname(vaultPath), { recursive: true });
+  const payload = encryptText(JSON.stringify(values), passphrase);
+  fs.writeFileSync(vaultPath, JSON.stringify(payload, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+export function formatSecretStatus(status: SecretStatus): string {
+  return status.error ? `${status.source} (failed: ${status.error})` : status.source;
+}
+
+export function createSecretStore(
+  env: NodeJS.ProcessEnv,
+  vaultPath: string,
+  inheritedEnv: NodeJS.ProcessEnv = {}
+): SecretStore {
+  const resolved = new Map<SecretKey, SecretStatus & { value?: string }>();
+  let vault: Record<string, string> | Error | undefined;
+
+  const readVaultOnce = () => {
+    if (vault === undefined) {
+      try {
+        const passphrase = fs.existsSync(vaultPath) ? vaultPassphrase({ ...inheritedEnv, ...env }) : '';
+        vault = passphrase ? readVault(vaultPath, passphrase) : {};
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vault = new Error(`Failed to read vault ${vaultPath}: ${message}`);
+      }
+    }
+    if (vault instanceof Error) {
+      throw vault;
+    }
+    return vault;
+  };
+
+  const command = (source: NodeJS.ProcessEnv, key: SecretKey) => () => {
+    const line = source[`${key}_CMD`]?.trim();
+    return line ? runSecretCommand(`${key}_CMD`, line) : undefined;
+  };
+
+  const resolve = (key: SecretKey) => {
+    const cached = resolved.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const steps: [SecretSource, () => string | undefined][] = [
+      ['env', () => env[key]?.trim()],
+      ['command', command(env, key)],
+      ['vault', () => readVaultOnce()[key]],
+      ['env', () => inheritedEnv[key]?.trim()],
+      ['command', command(inheritedEnv, key)],
+    ];
+    let result: SecretStatus & { value?: string } = { source: 'missing' };
+    for (const [source, read] of steps) {
+      try {
+        const value = read();
+        if (value) {
+          result = { source, value };
+          break;
+        }
+      } catch (error) {
+        result = { source, error: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+    }
+
+    resolved.set(key, result);
+    return result;
+  };
+
+  return {
+    get: (key) => {
+      const { value, error } = resolve(key);
+      if (error) {
+        throw new Error(error);
+      }
+      return value ?? '';
+    },
+    status: (key) => {
+      const { source, error } = resolve(key);
+      return error ? { source, error } : { source };
+    },
+    peek: (key) => {
+      const cached = resolved.get(key);
+      if (!cached) {
+        return undefined;
+      }
+      return cached.error ? { source: cached.source, error: cached.error } : { source: cached.source };
+    },
+  };
+}
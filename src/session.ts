@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from 'pino';
+import { AppConfig, FlowContext } from './types';
+import {
+  decodeJwtExpiry,
+  findSessionTokens,
+  hasAuthLikeKeys,
+  isSessionStateEncrypted,
+  readSessionMeta,
+  readSessionState,
+  SessionMeta,
+  StoredSessionState,
+  updateSessionMeta,
+  writeSessionState,
+} from './auth';
+import { decryptText, encryptText, isEncryptedPayload } from './crypto';
+import { launchBrowser } from './browser';
+import { NetworkCapture } from './capture';
+import { runFlow } from './flow-runner';
+import { getFlow } from './flows';
+import { withSessionLock } from './lock';
+import { ApiClient } from './api-client';
+
+export interface SessionTokenInfo {
+  source: string;
+  expiresAt?: string;
+}
+
+export interface SessionInfo {
+  path: string;
+  exists: boolean;
+  encrypted: boolean;
+  savedAt?: string;
+  cookies: number;
+  cookieNames: string[];
+  origins: number;
+  tokens: SessionTokenInfo[];
+  expiresAt?: string;
+  expiresInMs?: number;
+  expired?: boolean;
+  meta: SessionMeta;
+}
+
+export interface SessionBundle {
+  format: 'cfcnx-session';
+  version: 1;
+  exportedAt: string;
+  baseUrl: string;
+  state: StoredSessionState;
+}
+
+export interface ImportSessionOptions {
+  passphrase?: string;
+  force?: boolean;
+}
+
+export type SessionCheckStatus = 'valid' | 'invalid' | 'unknown';
+
+export interface SessionCheckResult {
+  status: SessionCheckStatus;
+  reason: string;
+  expiresAt?: string;
+}
+
+export interface QuickCheckOptions {
+  probe?: boolean;
+  minValidityMs?: number;
+}
+
+const DEFAULT_MIN_VALIDITY_MS = 60 * 1000;
+
+export type RefreshReason = 'missing' | 'expired' | 'expiring' | 'unknown-expiry' | 'fresh' | 'forced';
+
+export interface RefreshResult {
+  refreshed: boolean;
+  reason: RefreshReason;
+  before: SessionInfo;
+  after?: SessionInfo;
+}
+
+export interface RefreshOptions {
+  thresholdMs: number;
+  force?: boolean;
+}
+
+export function inspectSession(config: AppConfig, now = new Date()): SessionInfo {
+  const info: SessionInfo = {
+    path: config.sessionStatePath,
+    exists: fs.existsSync(config.sessionStatePath),
+    encrypted: isSessionStateEncrypted(config),
+    cookies: 0,
+    cookieNames: [],
+    origins: 0,
+    tokens: [],
+    meta: readSessionMeta(config),
+  };
+  if (!info.exists) {
+    return info;
+  }
+
+  info.savedAt = info.meta.savedAt ?? fs.statSync(config.sessionStatePath).mtime.toISOString();
+  const state = readSessionState(config);
+  if (!state) {
+    return info;
+  }
+
+  info.cookies = state.cookies.length;
+  info.cookieNames = [...new Set(state.cookies.map((cookie) => cookie.name))];
+  info.origins = state.origins.length;
+  info.tokens = findSessionTokens(state).map((token) => ({
+    source: token.source,
+    expiresAt: decodeJwtExpiry(token.value)?.toISOString(),
+  }));
+
+  const tokenExpiries = info.tokens
+    .map((token) => (token.expiresAt ? Date.parse(token.expiresAt) : NaN))
+    .filter(Number.isFinite);
+  const cookieExpiries = state.cookies
+    .filter((cookie) => hasAuthLikeKeys([cookie.name]))
+    .map((cookie) => cookie.expires)
+    .filter((expires) => Number.isFinite(expires) && expires > 0)
+    .map((expires) => expires * 1000);
+  const expiries = tokenExpiries.length > 0 ? tokenExpiries : cookieExpiries;
+  if (expiries.length > 0) {
+    const expiresAt = Math.min(...expiries);
+    info.expiresAt = new Date(expiresAt).toISOString();
+    info.expiresInMs = expiresAt - now.getTime();
+    info.expired = info.expiresInMs <= 0;
+  }
+
+  return info;
+}
+
+export function rotateSessionKey(config: AppConfig, newKey: string): void {
+  const state = readSessionState(config);
+  if (!state) {
+    throw new Error(`No session state found at ${config.sessionStatePath}.`);
+  }
+  writeSessionState(config, state, newKey);
+}
+
+export function exportSession(config: AppConfig, filePath: string, passphrase?: string): string {
+  const state = readSessionState(config);
+  if (!state) {
+    throw new Error(`No session state found at ${config.sessionStatePath}.`);
+  }
+
+  const bundle: SessionBundle = {
+    format: 'cfcnx-session',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    baseUrl: config.baseUrl,
+    state,
+  };
+  const json = JSON.stringify(bundle, null, 2);
+  const content = passphrase ? JSON.stringify(encryptText(json, passphrase), null, 2) : json;
+
+  const resolved = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.writeFileSync(resolved, content, { encoding: 'utf-8', mode: 0o600 });
+  return resolved;
+}
+
+export function importSession(config: AppConfig, filePath: string, options: ImportSessionOptions = {}): SessionBundle {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Session export not found: ${resolved}`);
+  }
+  if (fs.existsSync(config.sessionStatePath) && !options.force) {
+    throw new Error(`A session already exists at ${config.sessionStatePath}. Use --force to replace it.`);
+  }
+
+  let raw = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as unknown;
+  if (isEncryptedPayload(raw)) {
+    if (!options.passphrase) {
+      throw new Error('This session export is encrypted. Pass its passphrase with --passphrase-stdin.');
+    }
+    raw = JSON.parse(decryptText(raw, options.passphrase));
+  }
+
+  const bundle = raw as Partial<SessionBundle>;
+  if (bundle.format !== 'cfcnx-session' || !bundle.state || !Array.isArray(bundle.state.cookies)) {
+    throw new Error(`Not a session export: ${resolved}`);
+  }
+
+  writeSessionState(config, { ...bundle.state, origins: bundle.state.origins ?? [] });
+  updateSessionMeta(config, {
+    savedAt: bundle.exportedAt,
+    importedAt: new Date().toISOString(),
+    importedFrom: resolved,
+    lastValidatedAt: undefined,
+    lastValidationResult: undefined,
+  });
+  return bundle as SessionBundle;
+}
+
+async function probeSession(config: AppConfig, logger: Logger): Promise<boolean | undefined> {
+  let client: ApiClient;
+  try {
+    client = ApiClient.fromSession(config, logger);
+  } catch (error) {
+    logger.debug({ err: error }, 'Session probe unavailable');
+    return undefined;
+  }
+  return client.probe();
+}
+
+export async function quickSessionCheck(
+  config: AppConfig,
+  logger: Logger,
+  options: QuickCheckOptions = {}
+): Promise<SessionCheckResult> {
+  const info = inspectSession(config);
+  const { expiresAt } = info;
+  if (!info.exists) {
+    return { status: 'invalid', reason: 'missing' };
+  }
+  if (info.expired) {
+    return { status: 'invalid', reason: 'expired', expiresAt };
+  }
+  if (info.expiresInMs !== undefined && info.expiresInMs < (options.minValidityMs ?? DEFAULT_MIN_VALIDITY_MS)) {
+    return { status: 'invalid', reason: 'expiring', expiresAt };
+  }
+
+  if (options.probe) {
+    const accepted = await probeSession(config, logger);
+    if (accepted === false) {
+      return { status: 'invalid', reason: 'http-rejected', expiresAt };
+    }
+    if (accepted) {
+      updateSessionMeta(config, { lastValidatedAt: new Date().toISOString(), lastValidationResult: true });
+      return { status: 'valid', reason: 'http-accepted', expiresAt };
+    }
+  }
+
+  if (info.tokens.some((token) => token.expiresAt)) {
+    return { status: 'valid', reason: 'token-expiry', expiresAt };
+  }
+  return { status: 'unknown', reason: info.tokens.length > 0 ? 'no-token-expiry' : 'no-token', expiresAt };
+}
+
+function refreshReason(info: SessionInfo, options: RefreshOptions): RefreshReason {
+  if (options.force) {
+    return 'forced';
+  }
+  if (!info.exists) {
+    return 'missing';
+  }
+  if (info.expiresInMs === undefined) {
+    return 'unknown-expiry';
+  }
+  if (info.expired) {
+    return 'expired';
+  }
+  return info.expiresInMs <= options.thresholdMs ? 'expiring' : 'fresh';
+}
+
+export async function refreshSession(
+  config: AppConfig,
+  logger: Logger,
+  options: RefreshOptions
+): Promise<RefreshResult> {
+  const before = inspectSession(config);
+  const reason = refreshReason(before, options);
+  if (reason === 'fresh' || reason === 'unknown-expiry') {
+    return { refreshed: false, reason, before };
+  }
+
+  const loginFlow = getFlow('login');
+  if (!loginFlow) {
+    throw new Error('Login flow is not registered.');
+  }
+
+  logger.info({ reason, expiresAt: before.expiresAt }, 'Refreshing session');
+  await withSessionLock(config, logger, 'session-refresh', async () => {
+    const session = await launchBrowser(config, { freshContext: true });
+    try {
+      const ctx: FlowContext = {
+        config,
+        logger,
+        page: session.page,
+        capture: new NetworkCapture(session.page, logger),
+        params: {},
+      };
+      await runFlow(loginFlow, ctx);
+    } finally {
+      await session.close();
+    }
+  });
+
+  return { refreshed: true, reason, before, after: inspectSession(config) };
+}
@@ -162,8 +162,8 @@ export function buildWorkoutSummaryByDay(
   if (Array.isArray(data.workoutHistoryWeek)) {
     sources.push(...data.workoutHistoryWeek);
   }
-  if (Array.isArray(data.weekRaw)) {
-    sources.push(...data.weekRaw);
+  if (Array.isArray(data.workoutOfDay)) {
+    sources.push(...data.workoutOfDay);
   }
 
   for (const entry of sources) {
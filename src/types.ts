@@ -1,37 +1,82 @@
 import type { Logger } from 'pino';
 import type { Page } from 'playwright';
 import type { NetworkCapture } from './capture';
+import type { GraphqlOperation } from './graphql';
+import type { SecretStore } from './secrets';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 export interface OpenAIConfig {
-  apiKey: string;
   model: string;
   promptPath: string;
 }
 
+export type SummaryRenderer = 'local' | 'openai';
+
+export type SessionCheckMode = 'offline' | 'http' | 'browser';
+
+export type SummaryProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface SummaryProviderConfig {
+  provider: SummaryProviderName;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  fixturePath: string;
+  cache: boolean;
+  cacheDir: string;
+}
+
+export interface HarConfig {
+  recordPath: string;
+  replayPath: string;
+}
+
+export interface ApiConfig {
+  url: string;
+  catalogPath: string;
+}
+
+export interface LabelConfig {
+  locale: string;
+  path: string;
+}
+
 export interface AppConfig {
+  profile?: string;
   baseUrl: string;
   credentials: {
     email: string;
-    password: string;
   };
   headless: boolean;
   slowMo: number;
   outputDir: string;
   logLevel: LogLevel;
   globalTimeout: number;
+  trace: boolean;
   saveTraces: boolean;
+  har: HarConfig;
   sessionStatePath: string;
+  sessionCheck: SessionCheckMode;
+  runHistoryPath: string;
+  vaultPath: string;
+  secrets: SecretStore;
   artifactsDir: string;
   openai: OpenAIConfig;
+  summaryRenderer: SummaryRenderer;
+  summaryProvider: SummaryProviderConfig;
+  api: ApiConfig;
+  labels: LabelConfig;
 }
 
 export interface CaptureRule {
   name: string;
-  urlPattern: string | RegExp;
+  urlPattern?: string | RegExp;
   method?: string;
   statusCode?: number;
+  operationName?: string | RegExp;
+  match?: (operation: GraphqlOperation) => boolean;
+  extractPath?: string;
   transform?: (data: unknown) => unknown;
 }
 
@@ -40,9 +85,18 @@ export interface CaptureRecord {
   status: number;
   method: string;
   timestamp: number;
+  operationName?: string;
   data: unknown;
 }
 
+export interface NetworkLogEntry {
+  url: string;
+  status: number;
+  method: string;
+  contentType: string;
+  timestamp: number;
+}
+
 export interface FlowContext {
   config: AppConfig;
   logger: Logger;
@@ -52,10 +106,20 @@ export interface FlowContext {
   flowData?: Record<string, unknown>;
 }
 
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  retryOn?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+}
+
 export interface FlowStep {
   name: string;
   description?: string;
   captureRules?: CaptureRule[];
+  retry?: RetryOptions;
+  when?: (ctx: FlowContext) => boolean;
   action: (ctx: FlowContext) => Promise<void>;
 }
 
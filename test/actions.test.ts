@@ -0,0 +1,127 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FlutterPage, largestRow } from '../src/actions';
+import { createFakePage, FakePage, loadFixture } from './helpers/fake-page';
+
+const box = (x: number, y: number) => ({ x, y, width: 10, height: 10 });
+
+describe('largestRow', () => {
+  it('returns the biggest row sorted by x', () => {
+    const row = largestRow([box(50, 100), box(10, 104), box(0, 10), box(30, 98), box(5, 300)], 30);
+    expect(row.map((node) => node.x)).toEqual([10, 30, 50]);
+  });
+
+  it('returns an empty list for no nodes', () => {
+    expect(largestRow([], 30)).toEqual([]);
+  });
+});
+
+describe('FlutterPage', () => {
+  let fake: FakePage;
+  let flutter: FlutterPage;
+
+  beforeEach(() => {
+    fake = createFakePage(loadFixture('semantics.html'));
+    flutter = new FlutterPage(fake.page, 200);
+  });
+
+  describe('findAll', () => {
+    it('returns labelled nodes in document order', async () => {
+      const labels = (await flutter.findAll()).map((node) => node.label);
+      expect(labels.slice(0, 3)).toEqual(['Monday, July 14', 'Sun\n13', 'Mon\n14']);
+      expect(labels).toContain('Spacer');
+      expect(labels).not.toContain('');
+    });
+
+    it('matches string labels as normalized substrings', async () => {
+      const nodes = await flutter.findAll({ label: 'get started' });
+      expect(nodes.map((node) => node.label)).toEqual(['Let’s get\u00a0started']);
+    });
+
+    it('matches regex labels and roles', async () => {
+      const buttons = await flutter.findAll({ role: 'button', label: /^(home|schedule)$/i });
+      expect(buttons.map((node) => node.label)).toEqual(['Home', 'Schedule']);
+
+      const fields = await flutter.findAll({ role: /textbox/ });
+      expect(fields).toEqual([{ x: 40, y: 560, width: 320, height: 48, label: '', role: 'textbox' }]);
+    });
+
+    it('applies size, position and visibility filters', async () => {
+      const sized = await flutter.findAll({ minWidth: 1, minHeight: 1 });
+      expect(sized.map((node) => node.label)).not.toContain('Spacer');
+
+      const top = await flutter.findAll({ maxTopRatio: 0.2 });
+      expect(top.map((node) => node.label)).toEqual(['Monday, July 14', 'Sun\n13', 'Mon\n14', 'Tue\n15',
+        'Wed\n16', 'Thu\n17', 'Fri\n18', 'Sat\n19', 'Spacer']);
+
+      const inView = await flutter.findAll({ inViewport: true });
+      expect(inView.map((node) => node.label)).not.toContain('Offscreen footer');
+
+      const visible = await flutter.findAll({ visible: true });
+      expect(visible.map((node) => node.label)).not.toContain('Hidden promo');
+    });
+  });
+
+  describe('find', () => {
+    it('returns the first match or null', async () => {
+      expect(await flutter.find({ label: /reserve/i })).toMatchObject({ label: 'Reserve', x: 280, y: 318 });
+      expect(await flutter.find({ label: /cancel/i })).toBeNull();
+    });
+  });
+
+  describe('waitForLabel', () => {
+    it('finds semantics labels and page text', async () => {
+      expect(await flutter.waitForLabel(/let['’]s get\s+started/i, 50)).toBe(true);
+      expect(await flutter.waitForLabel(/welcome back/i, 50)).toBe(true);
+    });
+
+    it('returns false after the timeout', async () => {
+      expect(await flutter.waitForLabel(/not on screen/i, 30)).toBe(false);
+    });
+  });
+
+  describe('findDayButtons', () => {
+    it('returns the week row and skips the date header', async () => {
+      const buttons = await flutter.findDayButtons();
+      expect(buttons.map((button) => button.number)).toEqual([13, 14, 15, 16, 17, 18, 19]);
+    });
+
+    it('respects maxTopRatio', async () => {
+      expect(await flutter.findDayButtons({ maxTopRatio: 0.1 })).toEqual([
+        expect.objectContaining({ label: 'Monday, July 14', number: 14 }),
+      ]);
+    });
+  });
+
+  describe('tryClickByLabel', () => {
+    it('clicks the centre of a matching button', async () => {
+      expect(await flutter.tryClickByLabel(/schedule/i, 'Schedule')).toBe(true);
+      expect(fake.clicks).toEqual([{ x: 150, y: 730 }]);
+    });
+
+    it('falls back to the link role', async () => {
+      expect(await flutter.tryClickByLabel(/workouts/i, 'Workouts')).toBe(true);
+      expect(fake.clicks).toEqual([{ x: 250, y: 730 }]);
+    });
+
+    it('skips a match centred on the excluded point', async () => {
+      expect(await flutter.tryClickByLabel(/home|schedule/i, 'Home or schedule', { exclude: { x: 50, y: 730 } })).toBe(true);
+      expect(fake.clicks).toEqual([{ x: 150, y: 730 }]);
+    });
+
+    it('returns false without clicking when nothing matches', async () => {
+      expect(await flutter.tryClickByLabel(/leave waitlist/i, 'Leave waitlist')).toBe(false);
+      expect(fake.clicks).toEqual([]);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('nests labelled nodes and hoists unlabelled wrappers', async () => {
+      const tree = await flutter.snapshot();
+      const slot = tree.find((node) => node.label === '6:00 AM\nCrossFit');
+      expect(slot?.children.map((node) => node.label)).toEqual(['Reserve']);
+      expect(tree[1]).toMatchObject({ role: 'group', label: '' });
+      expect(tree[1].children).toHaveLength(7);
+    });
+  });
+});
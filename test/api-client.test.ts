@@ -0,0 +1,80 @@
+import pino from 'pino';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient } from '../src/api-client';
+import type { DiscoveredOperation } from '../src/discover';
+import { AppConfig } from '../src/types';
+
+const config = { baseUrl: 'https://app.example.com', globalTimeout: 1000, api: { url: '' } } as AppConfig;
+
+function operation(overrides: Partial<DiscoveredOperation>): DiscoveredOperation {
+  return {
+    key: 'op',
+    kind: 'graphql',
+    rootFields: [],
+    method: 'POST',
+    urls: ['https://api.example.com/graphql'],
+    statuses: [200],
+    count: 1,
+    firstSeen: '2030-01-01T00:00:00.000Z',
+    lastSeen: '2030-01-01T00:00:00.000Z',
+    sampleVariables: [],
+    responseShape: {},
+    responseSchema: {},
+    ...overrides,
+  };
+}
+
+function stubFetch(data: unknown) {
+  const fetchMock = vi.fn(async (_url: string, _init: { body: string }) => ({
+    ok: true,
+    status: 200,
+    json: async () => ({ data }),
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return () => JSON.parse(fetchMock.mock.calls[0][1].body) as { operationName?: string; variables: unknown };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ApiClient.request', () => {
+  it('refuses operations recorded with redacted credentials', async () => {
+    const redacted = operation({
+      key: 'Me',
+      query: 'query Me($token: String!) { me }',
+      sampleVariables: [{ token: '***' }],
+    });
+    const client = new ApiClient(config, pino({ level: 'silent' }), { token: 'token', cookies: [] }, [redacted]);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client.request(redacted, { token: '***' })).rejects.toThrow(/redacted credentials/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient.getSchedule', () => {
+  const schedule = operation({
+    key: 'ClassSchedule',
+    operationName: 'ClassSchedule',
+    rootFields: ['classSchedule'],
+    query: 'query ClassSchedule($from: String!, $dateTo: String!, $gym: ID!) { classSchedule }',
+    sampleVariables: [{ gym: 'gym-1', from: '2024-03-04', filter: { dateTo: '2024-03-10T23:59:59Z' } }],
+  });
+  const client = new ApiClient(config, pino({ level: 'silent' }), { token: 'token', cookies: [] }, [schedule]);
+
+  it('substitutes the range into the recorded variables', async () => {
+    const sent = stubFetch({ classSchedule: [] });
+    expect(await client.getSchedule({ start: '2030-01-07', end: '2030-01-13' })).toEqual({ classSchedule: [] });
+    expect(sent()).toMatchObject({
+      operationName: 'ClassSchedule',
+      variables: { gym: 'gym-1', from: '2030-01-07', filter: { dateTo: '2030-01-13T23:59:59Z' } },
+    });
+  });
+
+  it('rejects an inverted or malformed range', async () => {
+    await expect(client.getSchedule({ start: '2030-01-13', end: '2030-01-07' })).rejects.toThrow(/Invalid schedule range/);
+    await expect(client.getSchedule({ start: 'monday', end: '2030-01-07' })).rejects.toThrow(/Invalid schedule range/);
+  });
+});
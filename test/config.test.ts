@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config';
+
+const ENV_KEYS = ['PUSHPRESS_PROFILES_DIR', 'PUSHPRESS_PASSWORD', 'PUSHPRESS_EMAIL', 'PUSHPRESS_VAULT_PATH'];
+
+describe('loadConfig profiles', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  let tmpDir: string;
+
+  beforeEach(() => {
+    ENV_KEYS.forEach((key) => {
+      savedEnv[key] = process.env[key];
+    });
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pushpress-config-'));
+    fs.mkdirSync(path.join(tmpDir, 'profiles'));
+    process.env.PUSHPRESS_PROFILES_DIR = path.join(tmpDir, 'profiles');
+    process.env.PUSHPRESS_EMAIL = 'a@example.com';
+    process.env.PUSHPRESS_PASSWORD = 'account-a';
+  });
+
+  afterEach(() => {
+    ENV_KEYS.forEach((key) => {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    });
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeProfile(name: string, content: string): void {
+    const vault = path.join(tmpDir, `${name}.vault`);
+    fs.writeFileSync(path.join(tmpDir, 'profiles', `${name}.env`), `${content}PUSHPRESS_VAULT_PATH=${vault}\n`);
+  }
+
+  it('does not inherit the default password into a profile with its own email', () => {
+    writeProfile('b', 'PUSHPRESS_EMAIL=b@example.com\n');
+    const config = loadConfig({ path: path.join(tmpDir, '.env'), profile: 'b' });
+    expect(config.credentials.email).toBe('b@example.com');
+    expect(config.secrets.status('PUSHPRESS_PASSWORD')).toEqual({ source: 'missing' });
+  });
+
+  it('inherits both email and password into a profile without an email', () => {
+    writeProfile('defaults', 'HEADLESS=false\n');
+    const config = loadConfig({ path: path.join(tmpDir, '.env'), profile: 'defaults' });
+    expect(config.credentials.email).toBe('a@example.com');
+    expect(config.secrets.get('PUSHPRESS_PASSWORD')).toBe('account-a');
+  });
+});
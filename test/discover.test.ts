@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { redactQuery, redactVariables } from '../src/discover';
+
+describe('discovery redaction', () => {
+  it('redacts credential-like variables at any depth', () => {
+    const variables = {
+      email: 'member@example.com',
+      input: { password: 'hunter2', remember: true },
+      devices: [{ pushToken: 'abc' }],
+      date: '2030-01-07',
+      filter: { emailDomain: 'example.com' },
+    };
+    expect(redactVariables(variables)).toEqual({
+      email: '***',
+      input: { password: '***', remember: true },
+      devices: [{ pushToken: '***' }],
+      date: '2030-01-07',
+      filter: { emailDomain: 'example.com' },
+    });
+  });
+
+  it('redacts inline credential literals in queries', () => {
+    const query = 'mutation { login(email: "member@example.com", password: "hu\\"nter2", remember: "yes") { token } }';
+    expect(redactQuery(query)).toBe('mutation { login(email: "***", password: "***", remember: "yes") { token } }');
+  });
+});
@@ -0,0 +1,94 @@
+import pino from 'pino';
+import type { Page } from 'playwright';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runFlow } from '../src/flow-runner';
+import { AppConfig, FlowContext, FlowDefinition } from '../src/types';
+
+const loginScreen = vi.hoisted(() => ({ visible: false }));
+
+vi.mock('../src/auth', () => ({
+  isLoginScreenVisible: async () => loginScreen.visible,
+}));
+
+function push(ctx: FlowContext, key: string, value: string): void {
+  ctx.flowData = ctx.flowData ?? {};
+  ctx.flowData[key] = [...((ctx.flowData[key] as string[] | undefined) ?? []), value];
+}
+
+function createContext(): FlowContext {
+  return { config: {} as AppConfig, logger: pino({ level: 'silent' }), page: {} as Page };
+}
+
+describe('runFlow re-authentication', () => {
+  beforeEach(() => {
+    loginScreen.visible = false;
+  });
+
+  it('retries only the failed step after logging in again', async () => {
+    const calls: string[] = [];
+    let failed = false;
+    const flow: FlowDefinition = {
+      name: 'book',
+      description: 'test',
+      steps: [
+        { name: 'open', action: async () => void calls.push('open') },
+        {
+          name: 'book',
+          action: async (ctx) => {
+            calls.push('book');
+            push(ctx, 'bookings', 'mon');
+            if (!failed) {
+              failed = true;
+              loginScreen.visible = true;
+              throw new Error('session expired');
+            }
+          },
+        },
+      ],
+    };
+    const login: FlowDefinition = {
+      name: 'login',
+      description: 'test',
+      steps: [
+        {
+          name: 'login',
+          action: async () => {
+            calls.push('login');
+            loginScreen.visible = false;
+          },
+        },
+      ],
+    };
+
+    const result = await runFlow(flow, createContext(), { reauthFlow: login });
+    expect(calls).toEqual(['open', 'book', 'login', 'book']);
+    expect(result).toEqual({ data: { bookings: ['mon'] }, stepsCompleted: 2 });
+  });
+});
+
+describe('runFlow step retry', () => {
+  it('rolls back flow data written by a failed attempt', async () => {
+    let attempts = 0;
+    const flow: FlowDefinition = {
+      name: 'week',
+      description: 'test',
+      steps: [
+        {
+          name: 'capture',
+          retry: { maxAttempts: 3, baseDelayMs: 0 },
+          action: async (ctx) => {
+            attempts += 1;
+            push(ctx, 'days', 'mon');
+            if (attempts < 3) {
+              throw new Error('render glitch');
+            }
+          },
+        },
+      ],
+    };
+
+    const result = await runFlow(flow, createContext());
+    expect(attempts).toBe(3);
+    expect(result.data).toEqual({ days: ['mon'] });
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import type { Page } from 'playwright';
+
+type Pattern = RegExp | string;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FakePage {
+  page: Page;
+  clicks: { x: number; y: number }[];
+}
+
+function boxOf(el: Element): Box {
+  const [x, y, width, height] = (el.getAttribute('data-box') ?? '0,0,0,0').split(',').map(Number);
+  return { x, y, width, height };
+}
+
+function matches(value: string, pattern: Pattern): boolean {
+  return typeof pattern === 'string'
+    ? value.toLowerCase().includes(pattern.toLowerCase())
+    : pattern.test(value);
+}
+
+function locator(resolve: () => Element[]) {
+  const handle = (el: Element | undefined) => ({
+    elementHandle: async () => (el ? { boundingBox: async () => boxOf(el) } : null),
+  });
+  return {
+    count: async () => resolve().length,
+    first: () => handle(resolve()[0]),
+    nth: (index: number) => handle(resolve()[index]),
+    waitFor: async () => undefined,
+  };
+}
+
+function byText(scope: () => Element[], pattern: Pattern): Element[] {
+  return scope()
+    .flatMap((root) => [root, ...Array.from(root.querySelectorAll('*'))])
+    .filter((el) => el.children.length === 0 && matches(el.textContent?.trim() ?? '', pattern));
+}
+
+export function loadFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf-8');
+}
+
+export function createFakePage(html: string): FakePage {
+  document.body.innerHTML = html;
+  Element.prototype.getBoundingClientRect = function getBoundingClientRect(this: Element) {
+    const { x, y, width, height } = boxOf(this);
+    return { x, y, width, height, left: x, top: y, right: x + width, bottom: y + height } as DOMRect;
+  };
+
+  const clicks: { x: number; y: number }[] = [];
+  const all = () => [document.body];
+  const fake = {
+    evaluate: async <T, A>(fn: (arg: A) => T, arg: A) => fn(arg),
+    waitForTimeout: (ms: number) => new Promise((resolve) => setTimeout(resolve, Math.min(ms, 5))),
+    mouse: {
+      click: async (x: number, y: number) => {
+        clicks.push({ x, y });
+      },
+      wheel: async () => undefined,
+    },
+    getByText: (pattern: Pattern) => locator(() => byText(all, pattern)),
+    getByRole: (role: string, options: { name?: Pattern } = {}) =>
+      locator(() =>
+        Array.from(document.querySelectorAll(`[role="${role}"]`)).filter(
+          (el) => options.name === undefined || matches(el.getAttribute('aria-label') ?? '', options.name)
+        )
+      ),
+    locator: (selector: string) => ({
+      ...locator(() => Array.from(document.querySelectorAll(selector))),
+      getByText: (pattern: Pattern) =>
+        locator(() => byText(() => Array.from(document.querySelectorAll(selector)), pattern)),
+    }),
+  };
+
+  return { page: fake as unknown as Page, clicks };
+}
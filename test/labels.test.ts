@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FlutterPage } from '../src/actions';
+import { findLabel, labelPattern, loadLabels } from '../src/labels';
+import { AppConfig } from '../src/types';
+import { createFakePage, loadFixture } from './helpers/fake-page';
+
+const tmpDirs: string[] = [];
+
+function configWithLabels(content?: string): AppConfig {
+  let filePath = '';
+  if (content !== undefined) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pushpress-labels-'));
+    tmpDirs.push(dir);
+    filePath = path.join(dir, 'labels.yaml');
+    fs.writeFileSync(filePath, content, 'utf-8');
+  }
+  return { labels: { locale: 'en', path: filePath } } as AppConfig;
+}
+
+afterEach(() => {
+  tmpDirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('label dictionary', () => {
+  it('rejects regex flags other than i', () => {
+    const config = configWithLabels('labels:\n  bookingAction: ["/^reserve$/m"]\n');
+    expect(() => loadLabels(config)).toThrow(/flag "m" is not supported/);
+    expect(() => loadLabels(configWithLabels('labels:\n  close: ["/^x$/gi"]\n'))).toThrow(/flag "g"/);
+  });
+
+  it('requires every month and weekday in order', () => {
+    const config = configWithLabels('labels:\n  months: [Enero, Febrero]\n');
+    expect(() => loadLabels(config)).toThrow(/"months" needs exactly 12 entries/);
+  });
+
+  it('matches regex synonyms case-insensitively in combined patterns', () => {
+    const config = configWithLabels('labels:\n  bookingAction: ["/^RESERVE$/", "Book"]\n');
+    expect(labelPattern(config, 'bookingAction').test('Reserve')).toBe(true);
+  });
+
+  it('finds nodes by trying synonyms in order', async () => {
+    const { page } = createFakePage(loadFixture('semantics.html'));
+    const config = configWithLabels('labels:\n  navigation: ["Workouts", "Home"]\n');
+    const node = await findLabel(new FlutterPage(page, 200), { config }, 'navigation');
+    expect(node?.label).toBe('Workouts');
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pino from 'pino';
+import { chromium } from 'playwright';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config';
+import { getFlow } from '../src/flows';
+import { DEFAULT_MOCK_FIXTURES, MockServer, startMockServer } from '../src/mock-server';
+import { executeFlow } from '../src/run';
+import { createSecretStore } from '../src/secrets';
+import { AppConfig } from '../src/types';
+
+const hasBrowser = fs.existsSync(chromium.executablePath());
+
+const ENV_KEYS = ['PUSHPRESS_BASE_URL', 'PUSHPRESS_EMAIL', 'HEADLESS'] as const;
+
+interface GraphqlBody<T> {
+  data?: T;
+  errors?: unknown[];
+}
+
+interface ScheduleSlot {
+  id: string;
+  classId: string;
+  status: string;
+}
+
+async function graphql<T = unknown>(
+  server: MockServer,
+  query: string,
+  variables: Record<string, unknown>,
+  token?: string
+): Promise<{ status: number; body: GraphqlBody<T> }> {
+  const response = await fetch(server.graphqlUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(token ? { authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify({ query, variables }),
+  });
+  return { status: response.status, body: (await response.json()) as GraphqlBody<T> };
+}
+
+describe('mock server API', () => {
+  it('logs in, reserves a class and never logs the password', async () => {
+    const lines: string[] = [];
+    const logger = pino({ level: 'debug' }, { write: (line: string) => lines.push(line) });
+    const fixtures = {
+      ...DEFAULT_MOCK_FIXTURES,
+      member: { ...DEFAULT_MOCK_FIXTURES.member, password: 'hunter2-secret' },
+    };
+    const server = await startMockServer({ port: 0, latencyMs: 0, fixtures, logger });
+
+    try {
+      const unauthenticated = await graphql(server, 'query Me { me { id } }', {});
+      expect(unauthenticated.status).toBe(401);
+
+      const { member } = server.fixtures;
+      const login = await graphql<{ login: { token: string } }>(
+        server,
+        'mutation Login($email: String!, $password: String!) { login }',
+        { email: member.email, password: member.password }
+      );
+      const token = login.body.data!.login.token;
+      expect(token.split('.')).toHaveLength(3);
+
+      const schedule = await graphql<{ classSchedule: ScheduleSlot[] }>(
+        server,
+        'query Schedule($date: String!) { classSchedule }',
+        { date: '2030-01-07' },
+        token
+      );
+      const slot = schedule.body.data!.classSchedule[0];
+      expect(slot).toMatchObject({ classId: 'crossfit-0600', status: 'open' });
+
+      await graphql(server, 'mutation Reserve($id: ID!) { reserveClass }', { id: slot.id }, token);
+      expect(server.reservations()).toEqual([
+        { id: slot.id, classId: 'crossfit-0600', date: '2030-01-07', status: 'reserved' },
+      ]);
+
+      expect(lines.join('')).not.toContain(member.password);
+      expect(lines.join('')).toContain('"password":"***"');
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe.skipIf(!hasBrowser)('flows against the mock server', () => {
+  const logger = pino({ level: 'silent' });
+  let server: MockServer;
+  let tmpDir: string;
+  let config: AppConfig;
+  const savedEnv: Partial<Record<(typeof ENV_KEYS)[number], string>> = {};
+
+  beforeAll(async () => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+    }
+    server = await startMockServer({ port: 0, latencyMs: 0 });
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pushpress-mock-'));
+
+    process.env.PUSHPRESS_BASE_URL = server.url;
+    process.env.PUSHPRESS_EMAIL = server.fixtures.member.email;
+    process.env.HEADLESS = 'true';
+
+    const loaded = loadConfig({ path: path.join(tmpDir, '.env') });
+    config = {
+      ...loaded,
+      outputDir: path.join(tmpDir, 'output'),
+      artifactsDir: path.join(tmpDir, 'artifacts'),
+      sessionStatePath: path.join(tmpDir, 'state', 'session.json'),
+      runHistoryPath: path.join(tmpDir, 'state', 'runs.jsonl'),
+      secrets: createSecretStore(
+        { PUSHPRESS_PASSWORD: server.fixtures.member.password },
+        path.join(tmpDir, 'state', 'secrets.vault')
+      ),
+    };
+  });
+
+  afterAll(async () => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+    await server?.close();
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('logs in and books a class', async () => {
+    const login = await executeFlow(getFlow('login')!, config, logger, { params: {} });
+    expect(login.error).toBeUndefined();
+    expect(login.success).toBe(true);
+    expect(fs.existsSync(config.sessionStatePath)).toBe(true);
+
+    const params = { days: 'mon', time: '6:00 AM', class: 'CrossFit', week: 'next', confirm: 'true' };
+    const booking = await executeFlow(getFlow('schedule-book')!, config, logger, { params });
+    expect(booking.error).toBeUndefined();
+    expect(booking.success).toBe(true);
+
+    expect(server.reservations()).toEqual([
+      expect.objectContaining({ classId: 'crossfit-0600', status: 'reserved' }),
+    ]);
+  }, 180000);
+
+  it('captures the workout week', async () => {
+    const run = await executeFlow(getFlow('workout-week')!, config, logger, { params: {} });
+    expect(run.error).toBeUndefined();
+    expect(run.success).toBe(true);
+
+    const output = JSON.parse(fs.readFileSync(run.outputPath!, 'utf-8')) as { data: Record<string, unknown> };
+    const captured = JSON.stringify(output.data['workout-of-day']);
+    for (const title of ['Monday Mixer', 'Engine', 'Hump Day', 'Grip', 'Friday Partner', 'Team Saturday']) {
+      expect(captured).toContain(title);
+    }
+  }, 180000);
+});